@@ -8,12 +8,14 @@
 
 "use strict";
 
-import {DebugSession, InitializedEvent, TerminatedEvent, StoppedEvent, BreakpointEvent, OutputEvent, Thread, StackFrame, Scope, Source, Handles, Breakpoint} from 'vscode-debugadapter';
+import {DebugSession, InitializedEvent, TerminatedEvent, StoppedEvent, ContinuedEvent, BreakpointEvent, OutputEvent, ThreadEvent, LoadedSourceEvent, Thread, StackFrame, Scope, Source, Handles, Breakpoint} from 'vscode-debugadapter';
 import {DebugProtocol} from 'vscode-debugprotocol';
-import {readFileSync} from 'fs';
+import {readFileSync, existsSync} from 'fs';
 import {basename} from 'path';
 
-import {FirefoxSession} from './ffSession';
+import {FirefoxSession, BreakpointLocation, ExceptionDetails, ConsoleOutput, ResultVariable, StackFrameInfo, MainThreadId} from './ffSession';
+import {TabFilter} from './ffTabFilter';
+import {PathMapping} from './ffUrlHelper';
 
 /**
  * This interface should always match the schema found in the firefox-debug extension manifest.
@@ -27,8 +29,121 @@ export interface LaunchRequestArguments {
 	webRoot?: string;
 	runtimeExecutable?: string;
 	port?: number;
+	/** A persistent profile, by default Firefox runs in a temporary profile removed afterwards. */
 	profileDir?: string;
+	/** A profile copied into new profiles, e.g. with extensions installed. */
+	profileTemplate?: string;
+	/** Firefox preferences written to the profile's user.js. */
+	preferences?: {[name: string]: boolean | number | string};
+	/** Additional command line arguments of Firefox. */
+	firefoxArgs?: string[];
+	/** Environment variables of Firefox, null removes a variable. */
+	env?: {[name: string]: string};
 	logEnabled?: boolean;
+	/** Milliseconds to wait for the Firefox debugger server. */
+	timeout?: number;
+	/** Milliseconds to wait for Firefox to answer a request. */
+	requestTimeout?: number;
+	/** Selects the tab to debug, by default the tab with the program's URL. */
+	tabFilter?: TabFilter;
+	/** Glob patterns for the local paths and URLs of scripts which are blackboxed. */
+	skipFiles?: string[];
+	/** Maps URL prefixes to local directories, the most specific prefix wins over webRoot. */
+	pathMappings?: PathMapping[];
+	/** Writes the packets exchanged with Firefox to this JSONL file. */
+	traceFile?: string;
+	/** Reloads the page when the files under webRoot, the pathMappings folders (or the program's directory) change. */
+	reloadOnChange?: boolean;
+	/** Names of the files and directories whose changes do not reload the page, by default node_modules. */
+	reloadIgnore?: string[];
+}
+
+/**
+ * This interface should always match the schema found in the firefox-debug extension manifest.
+ */
+export interface AttachRequestArguments {
+	/** The URL of the already opened tab to debug. */
+	url: string;
+
+	webRoot?: string;
+	port?: number;
+	logEnabled?: boolean;
+	/** Milliseconds to wait for the Firefox debugger server. */
+	timeout?: number;
+	/** Milliseconds to wait for Firefox to answer a request. */
+	requestTimeout?: number;
+	/** Selects the tab to debug, by default the tab with the given URL. */
+	tabFilter?: TabFilter;
+	/** Glob patterns for the local paths and URLs of scripts which are blackboxed. */
+	skipFiles?: string[];
+	/** Maps URL prefixes to local directories, the most specific prefix wins over webRoot. */
+	pathMappings?: PathMapping[];
+	/** Writes the packets exchanged with Firefox to this JSONL file. */
+	traceFile?: string;
+	/** Replays a trace written with traceFile instead of connecting to Firefox. */
+	replayTrace?: string;
+}
+
+const HitConditionPattern = /^\s*(>=|<=|==|=|>|<|%)?\s*(\d+)\s*$/;
+
+/**
+ * Parses hit count expressions such as '>= 5', '% 10' or '== 3'. A bare number
+ * means '>='. Returns null if the expression is not valid.
+ */
+function parseHitCondition(expr: string): (hitCount: number) => boolean {
+	var match = HitConditionPattern.exec(expr);
+	if (!match) {
+		return null;
+	}
+	var value = +match[2];
+	switch (match[1]) {
+		case '==':
+		case '=':
+			return (hitCount) => hitCount === value;
+		case '>':
+			return (hitCount) => hitCount > value;
+		case '<':
+			return (hitCount) => hitCount < value;
+		case '<=':
+			return (hitCount) => hitCount <= value;
+		case '%':
+			return (hitCount) => value > 0 && hitCount % value === 0;
+		default:
+			return (hitCount) => hitCount >= value;
+	}
+}
+
+// splits a logpoint message into text and {expression} parts
+const LogMessageExpressionPattern = /\{([^}]+)\}/;
+
+/**
+ * Strings are printed without quotes in log messages.
+ */
+function toLogString(display: string): string {
+	if (display.charAt(0) !== '"') {
+		return display;
+	}
+	try {
+		return JSON.parse(display);
+	} catch (e) {
+		return display;
+	}
+}
+
+const IdentifierPattern = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Returns the expression for a variable of a scope (the scope's expression is empty)
+ * or a property of an object.
+ */
+function childExpression(expression: string, name: string): string {
+	if (expression === undefined) {
+		return undefined; // e.g. the arguments of console messages
+	}
+	if (!expression) {
+		return name;
+	}
+	return IdentifierPattern.test(name) ? `${expression}.${name}` : `${expression}[${JSON.stringify(name)}]`;
 }
 
 class PromiseCapability<T> {
@@ -43,31 +158,90 @@ class PromiseCapability<T> {
 	}
 }
 
-class FirefoxDebugSession extends DebugSession {
+/**
+ * Pause state of the page's thread or of a worker.
+ */
+class ThreadState {
+	public pausedCapability: PromiseCapability<any>;
+	// requests which need the thread to be paused (e.g. setting breakpoints) are chained here
+	public resumeAllowedPromise: Promise<any>;
+	// resolved when the last resume is sent, an interrupt sent before it would be lost
+	public resumedPromise: Promise<any>;
+	// set from resuming the thread until its next pause
+	public running: boolean;
+	// set while the thread is interrupted to set breakpoints or exception settings, the pause is not reported
+	public interruptedToConfigure: boolean;
 
-	// we don't support multiple threads, so we can use a hardcoded ID for the default thread
-	private static THREAD_ID = 1;
+	// the resume limit of the last step, it is repeated when stepping ends in unmapped code
+	public lastResumeLimit: string;
+	public exception: ExceptionDetails;
+
+	public constructor(public id: number, public name: string) {
+		this.awaitPause();
+		this.resumedPromise = Promise.resolve(undefined);
+		this.running = false;
+		this.interruptedToConfigure = false;
+	}
+
+	/**
+	 * Starts waiting for the next pause, it is rejected if the thread exits or the session stops.
+	 */
+	public awaitPause(): void {
+		this.pausedCapability = new PromiseCapability<any>();
+		// the rejection is handled by the requests chained to the pause, if there are any
+		this.pausedCapability.promise.catch(() => undefined);
+		this.resumeAllowedPromise = this.pausedCapability.promise;
+	}
+}
+
+class FirefoxDebugSession extends DebugSession {
 
 	// since we want to send breakpoint events, we will assign an id to every event
 	// so that the frontend can match events with breakpoints.
 	private _breakpointId = 1000;
 
-	// maps from sourceFile to array of Breakpoints
+	// maps from sourceFile to array of Breakpoints and the client breakpoints they were created for
 	private _breakPoints = new Map<string, DebugProtocol.Breakpoint[]>();
-	private _breakPointsIds = new Map<string, string[]>();
+	private _clientBreakpoints = new Map<string, DebugProtocol.SourceBreakpoint[]>();
+
+	// maps from Firefox breakpoint actor to its DAP id, source, location, hit condition, hit count and log message
+	private _breakpointActors: any = Object.create(null);
 
-	private _pausedCapability = new PromiseCapability<any>();
-	private _resumeAllowedPromise = this._pausedCapability.promise;
+	// maps from thread id to ThreadState
+	private _threads: any = Object.create(null);
 
-	private _pendingSourceCapabilities: any = Object.create(null);
-	private _sourcePromises: any = Object.create(null);
+	// maps from sourceFile to scripts loaded from it in any of the threads
+	private _sources: any = Object.create(null);
 
-	private _variableHandles = new Handles<string>();
+	// maps from sourceFile to the Source announced for it
+	private _loadedSources: any = Object.create(null);
+
+	// scripts without a local file (e.g. eval'd code or CDN scripts) are fetched by their sourceReference,
+	// maps from thread id and source actor to their Source
+	private _sourceReferences: any = Object.create(null);
+	private _sourceHandles = new Handles<{threadId: number, id: string}>();
+
+	// the scope or object of a variables reference and how to refer to it in its frame,
+	// the arguments of console messages are not fetched but passed as items. The variables
+	// of an outer scope can be shadowed by the variables of its inner scopes. The results of
+	// evaluations (and their properties) are evaluated objects, their expressions would run again.
+	private _variableHandles = new Handles<{threadId: number, frame: number, id: string, expression: string,
+		items?: Array<{name: string, value: ResultVariable}>, innerScopes?: string[], evaluated?: boolean}>();
+	private _frameHandles = new Handles<{threadId: number, frame: number}>();
 
 	private _session = new FirefoxSession();
 
 	private _stopOnEntry: boolean;
 
+	private _configurationDone = new PromiseCapability<void>();
+
+	// set when the page's thread is attached and its scripts are known (or connecting failed),
+	// breakpoints requested before are set then
+	private _pageAttached = false;
+	private _pendingBreakpointRequests = new Array<() => void>();
+
+	private _exceptionBreakMode: string = 'never';
+
 	/**
 	 * Creates a new debug adapter that is used for one debug session.
 	 * We configure the default implementation of a debug adapter here.
@@ -79,49 +253,303 @@ class FirefoxDebugSession extends DebugSession {
 		this.setDebuggerLinesStartAt1(true);
 		this.setDebuggerColumnsStartAt1(false);
 
+		// breakpoints can be set for the page's thread before we are connected
+		this._threads[MainThreadId] = new ThreadState(MainThreadId, 'main thread');
+
 		this._session = new FirefoxSession();
 		this._session._onOutput = (s: string, category?: string): void => {
 			this.sendEvent(new OutputEvent(s + '\n', category || 'stdout'));
 		};
 		this._session._onNotification = (topic: string, args: any): void => {
+			if (!this._session) {
+				return; // the debug session is stopped already
+			}
 			this.onFirefoxNotification(topic, args);
 		};
 	}
 
-	private resume(resumeLimit?: string): void {
-		this._resumeAllowedPromise.then((_) => {
-			this._pausedCapability = new PromiseCapability<any>();
-			this._resumeAllowedPromise = this._pausedCapability.promise;
-			this._session.resume(resumeLimit);
+	private resume(threadId: number, resumeLimit?: string): void {
+		var thread: ThreadState = this._threads[threadId];
+		if (!thread) {
+			return;
+		}
+		thread.lastResumeLimit = resumeLimit;
+		thread.exception = null;
+		thread.resumedPromise = thread.resumeAllowedPromise.then((_) => {
+			thread.awaitPause();
+			thread.running = true;
+			this._session.resume(threadId, resumeLimit);
 		});
+		// rejected if the thread exits or the page navigates before it is resumed
+		thread.resumedPromise.catch(() => undefined);
 	}
 
 	private onFirefoxNotification(topic: string, args: any): void {
 		switch (topic) {
+			case 'thread':
+				this.onThreadChanged(args);
+				return;
 			case 'paused':
-				this._pausedCapability.resolve(args.reason);
+				var thread: ThreadState = this._threads[args.threadId];
+				if (!thread) {
+					return;
+				}
+				thread.running = false;
+				thread.pausedCapability.resolve(args.reason);
+				if (thread.interruptedToConfigure) {
+					thread.interruptedToConfigure = false;
+					if (args.reason === 'interrupted') {
+						// the settings are sent before resuming, an interrupted step goes on
+						this.resume(thread.id, thread.lastResumeLimit);
+						return;
+					}
+				}
 				if (args.reason === 'attached') {
-					if (this._stopOnEntry) {
+					if (args.threadId === MainThreadId) {
+						this.onPageAttached();
+					}
+					if (this._stopOnEntry && args.threadId === MainThreadId) {
 						// we stop on the first line
-						this.sendEvent(new StoppedEvent("entry", FirefoxDebugSession.THREAD_ID));
+						this.sendEvent(new StoppedEvent("entry", thread.id));
 					} else {
-						// we just start to run until we hit a breakpoint or an exception
-						this.resume();
+						// we just start to run (once breakpoints and exception settings
+						// are configured) until we hit a breakpoint or an exception
+						this._configurationDone.promise.then(() => this.resume(thread.id));
 					}
 					return;
 				}
-				// TODO
-				this.sendEvent(new StoppedEvent("debugger", FirefoxDebugSession.THREAD_ID));
+				switch (args.reason) {
+					case 'exception':
+						thread.exception = args.exception;
+						var text = `${args.exception.className}: ${args.exception.message}`;
+						this.sendStoppedEvent(thread.id, 'exception', 'Paused on exception', undefined, text);
+						return;
+					case 'breakpoint':
+						this.onBreakpointsHit(thread.id, args.actors);
+						return;
+					case 'resumeLimit':
+						if (thread.lastResumeLimit && this.isUnmappedLocation(args.location)) {
+							// the step ended in generated code which has no original source, keep stepping
+							this.resume(thread.id, thread.lastResumeLimit);
+							return;
+						}
+						this.sendStoppedEvent(thread.id, 'step', 'Paused after step');
+						return;
+					case 'debuggerStatement':
+						this.sendStoppedEvent(thread.id, 'pause', 'Paused on debugger statement');
+						return;
+					case 'interrupted':
+						this.sendStoppedEvent(thread.id, 'pause', 'Paused');
+						return;
+					case 'alreadyPaused':
+						// the answer to an interrupt of a paused thread, it is reported already
+						return;
+				}
+				this.sendStoppedEvent(thread.id, 'pause', `Paused (${args.reason})`);
 				return;
 			case 'source':
-				var path = args.path;
-				if (!this._pendingSourceCapabilities[path]) {
-					this._sourcePromises[path] = Promise.resolve(args.id);
-				} else {
-					this._pendingSourceCapabilities[path].resolve(args.id);
+				this.onNewSource(args);
+				return;
+			case 'navigated':
+				this.onPageNavigated(args);
+				return;
+			case 'console':
+				this.onConsoleMessage(args);
+				return;
+			case 'disconnected':
+				this.onPageAttached();
+				this.sendEvent(new OutputEvent(`Connection to Firefox lost: ${args.message}\n`, 'stderr'));
+				this.sendEvent(new TerminatedEvent());
+				return;
+		}
+	}
+
+	private onConsoleMessage(output: ConsoleOutput): void {
+		const e = <DebugProtocol.OutputEvent> new OutputEvent(output.group === 'end' ? '' : output.text + '\n',
+			output.category);
+		if (output.group) {
+			(<any>e.body).group = output.group;
+		}
+		if (output.args) {
+			// the arguments are shown as the children of the message
+			e.body.variablesReference = this._variableHandles.create({
+				threadId: MainThreadId, frame: undefined, id: undefined, expression: undefined,
+				items: output.args.map((value, index) => ({name: String(index), value: value}))
+			});
+		}
+		if (output.url) {
+			var original = this._session.sourceMaps.originalPositionFor(output.url, output.line, output.column);
+			var path = original ? original.path : this.convertDebuggerPathToClient(output.url);
+			if (path) {
+				e.body.source = new Source(basename(path), path);
+				e.body.line = this.convertDebuggerLineToClient(original ? original.line : output.line);
+				e.body.column = this.convertDebuggerColumnToClient(original ? original.column : output.column);
+			}
+		}
+		this.sendEvent(e);
+	}
+
+	private onThreadChanged(args: {reason: string, threadId: number, name?: string}): void {
+		var thread: ThreadState = this._threads[args.threadId];
+		if (args.reason === 'started') {
+			if (!thread) {
+				this._threads[args.threadId] = new ThreadState(args.threadId, args.name);
+			}
+		} else {
+			if (!thread) {
+				return;
+			}
+			thread.pausedCapability.reject('exited');
+			delete this._threads[args.threadId];
+			this.forgetSources(args.threadId);
+		}
+		this.sendEvent(new ThreadEvent(args.reason, args.threadId));
+	}
+
+	private forgetSources(threadId: number): void {
+		Object.keys(this._sources).forEach((path) => {
+			this._sources[path] = this._sources[path].filter((source) => source.threadId !== threadId);
+		});
+		Object.keys(this._sourceReferences).forEach((key) => {
+			if (key.indexOf(threadId + ':') === 0) {
+				this.sendEvent(new LoadedSourceEvent('removed', this._sourceReferences[key]));
+				delete this._sourceReferences[key];
+			}
+		});
+	}
+
+	/**
+	 * Firefox resumes the page's thread when the page navigates. The scripts of the
+	 * new page are announced again and get the breakpoints of their files.
+	 */
+	private onPageNavigated(args: {state: string, url: string}): void {
+		if (args.state !== 'start') {
+			this.sendEvent(new OutputEvent(`Navigated to ${args.url}\n`, 'console'));
+			return;
+		}
+		var thread: ThreadState = this._threads[MainThreadId];
+		if (!thread) {
+			return;
+		}
+		if (!thread.running) {
+			this.sendEvent(new ContinuedEvent(thread.id));
+		}
+		// requests waiting for the previous page to pause are dropped
+		thread.pausedCapability.reject('navigated');
+		thread.awaitPause();
+		thread.running = true;
+		thread.interruptedToConfigure = false;
+		thread.lastResumeLimit = undefined;
+		thread.exception = null;
+
+		var sourceIds = Object.create(null);
+		Object.keys(this._sources).forEach((path) => {
+			this._sources[path].forEach((source) => {
+				if (source.threadId === MainThreadId) {
+					sourceIds[source.id] = true;
+				}
+			});
+		});
+		this.forgetSources(MainThreadId);
+		var actors = Object.keys(this._breakpointActors).filter((actor) => sourceIds[this._breakpointActors[actor].sourceId]);
+		actors.forEach((actor) => {
+			var info = this._breakpointActors[actor];
+			delete this._breakpointActors[actor];
+			(this._breakPoints[info.path] || []).forEach((bp) => {
+				if (bp.id === info.id && bp.verified) {
+					bp.verified = false;
+					this.sendEvent(new BreakpointEvent('changed', bp));
 				}
+			});
+		});
+		// Firefox may keep the breakpoints for the new scripts of the same URL, they are set again
+		this._session.removeBreakpoints(actors).catch((e) => {
+			// the breakpoints are gone with the scripts of the previous page
+		});
+	}
+
+	private sendStoppedEvent(threadId: number, reason: string, description: string,
+													 hitBreakpointIds?: number[], text?: string): void {
+		const e = <DebugProtocol.StoppedEvent> new StoppedEvent(reason, threadId, text);
+		(<any>e.body).description = description;
+		if (hitBreakpointIds) {
+			(<any>e.body).hitBreakpointIds = hitBreakpointIds;
+		}
+		this.sendEvent(e);
+	}
+
+	private onBreakpointsHit(threadId: number, actors: string[]): void {
+		var shouldPause = actors.length === 0;
+		var logpoints = [];
+		var hitBreakpointIds = new Array<number>();
+		actors.forEach((actor) => {
+			var info = this._breakpointActors[actor];
+			if (!info) {
+				shouldPause = true;
+				return;
+			}
+			info.hitCount++;
+			if (info.hitCondition && !info.hitCondition(info.hitCount)) {
 				return;
+			}
+			if (info.logMessage) {
+				logpoints.push(info);
+			} else {
+				shouldPause = true;
+				hitBreakpointIds.push(info.id);
+			}
+		});
+
+		var logged = Promise.resolve(undefined);
+		logpoints.forEach((info) => {
+			logged = logged.then(() => this.printLogMessage(threadId, info));
+		});
+		logged.then(() => {
+			if (shouldPause) {
+				this.sendStoppedEvent(threadId, 'breakpoint', 'Paused on breakpoint', hitBreakpointIds);
+			} else {
+				// only logpoints (or breakpoints not matching their hit condition) were hit
+				this.resume(threadId);
+			}
+		});
+	}
+
+	/**
+	 * Evaluates the {expressions} of the logpoint's message in the paused frame
+	 * and prints the message to the debug console.
+	 */
+	private printLogMessage(threadId: number, info: {logMessage: string, path: string, line: number}): Promise<void> {
+		var parts = info.logMessage.split(LogMessageExpressionPattern);
+		var text = '';
+		var promise = Promise.resolve(undefined);
+		parts.forEach((part, index) => {
+			if (index % 2 === 0) {
+				promise = promise.then(() => {
+					text += part;
+				});
+				return;
+			}
+			promise = promise.then(() => this._session.evaluate(threadId, part, 0)).then((result) => {
+				text += toLogString(result.display);
+			}, (reason) => {
+				text += `{${reason}}`;
+			});
+		});
+		return promise.then(() => {
+			const e = <DebugProtocol.OutputEvent> new OutputEvent(text + '\n', 'console');
+			e.body.source = new Source(basename(info.path), info.path);
+			e.body.line = this.convertDebuggerLineToClient(info.line);
+			this.sendEvent(e);
+		});
+	}
+
+	private isUnmappedLocation(location: {url: string, line: number, column: number}): boolean {
+		if (!location) {
+			return false;
 		}
+		var sourceMaps = this._session.sourceMaps;
+		return sourceMaps.hasSourceMap(location.url) &&
+			!sourceMaps.originalPositionFor(location.url, location.line, location.column);
 	}
 
 	/**
@@ -130,205 +558,623 @@ class FirefoxDebugSession extends DebugSession {
 	 */
 	protected initializeRequest(response: DebugProtocol.InitializeResponse, args: DebugProtocol.InitializeRequestArguments): void {
 
+		// This debug adapter implements the configurationDoneRequest.
+		response.body.supportsConfigurationDoneRequest = true;
+
+		// conditions are evaluated by Firefox, hit counts are checked by the adapter
+		response.body.supportsConditionalBreakpoints = true;
+		response.body.supportsHitConditionalBreakpoints = true;
+
+		// logpoints are breakpoints the adapter resumes from after printing the message
+		(<any>response.body).supportsLogPoints = true;
+
+		response.body.exceptionBreakpointFilters = [
+			{filter: 'all', label: 'All Exceptions', default: false},
+			{filter: 'uncaught', label: 'Uncaught Exceptions', default: false}
+		];
+		response.body.supportsExceptionInfoRequest = true;
+
+		// copying a value evaluates it in the 'clipboard' context to get its full text
+		(<any>response.body).supportsClipboardContext = true;
+
+		// assignments are evaluated in the frame of the variable
+		response.body.supportsSetVariable = true;
+
+		// completions are provided by the console actor of the tab
+		response.body.supportsCompletionsRequest = true;
+
+		// scripts without a local file are shown by their sourceReference
+		response.body.supportsLoadedSourcesRequest = true;
+
+		// restarting loads the page again without closing the connection
+		response.body.supportsRestartRequest = true;
+
+		this.sendResponse(response);
+
 		// since this debug adapter can accept configuration requests like 'setBreakpoint' at any time,
 		// we request them early by sending an 'initializeRequest' to the frontend.
 		// The frontend will end the configuration sequence by calling 'configurationDone' request.
+		// The event follows the response, which tells the frontend that 'configurationDone' is supported.
 		this.sendEvent(new InitializedEvent());
+	}
 
-		// This debug adapter implements the configurationDoneRequest.
-		response.body.supportsConfigurationDoneRequest = true;
-
+	protected configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments): void {
+		this._configurationDone.resolve(undefined);
 		this.sendResponse(response);
 	}
 
 	protected launchRequest(response: DebugProtocol.LaunchResponse, args: LaunchRequestArguments): void {
 		this._stopOnEntry = args.stopOnEntry;
 
-		this._session.launch(args);
-		this.sendResponse(response);
+		this._session.launch(args).then(() => {
+			this.sendResponse(response);
+		}, (e) => {
+			this.onPageAttached();
+			this.sendErrorResponse(response, 3001, e.message);
+		});
 	}
 
-	private getSourceId(path: string): Promise<string> {
-		if (this._sourcePromises[path]) {
-			return this._sourcePromises[path];
-		}
-		var capability = new PromiseCapability<string>();
-		this._sourcePromises[path] = capability.promise;
-		this._pendingSourceCapabilities[path] = capability;
-		capability.promise.then((_) => {
-			delete this._pendingSourceCapabilities[path];
-		}, (_) => {
-			delete this._pendingSourceCapabilities[path];
+	protected attachRequest(response: DebugProtocol.AttachResponse, args: AttachRequestArguments): void {
+		// the page is already running, so there is no entry to stop on
+		this._stopOnEntry = false;
+
+		this._session.attach(args).then(() => {
+			this.sendResponse(response);
+		}, (e) => {
+			this.onPageAttached();
+			this.sendErrorResponse(response, 3001, e.message);
 		});
-		return capability.promise;
 	}
 
-	protected setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): void {
+	protected restartRequest(response: DebugProtocol.RestartResponse, args: DebugProtocol.RestartArguments): void {
+		this._session.restart().then(() => {
+			this.sendResponse(response);
+		}, (e) => {
+			this.sendErrorResponse(response, 3010, `Cannot restart: ${e.message}`);
+		});
+	}
 
-		var path = args.source.path;
-		var clientLines = args.lines;
-		var sourceId;
-		this._resumeAllowedPromise = Promise.all([this.getSourceId(path), this._resumeAllowedPromise]).then((results) => {
-			sourceId = results[0];
-			var oldBreakpointsIds = this._breakPointsIds[path];
-			if (oldBreakpointsIds && oldBreakpointsIds.length > 0) {
+	private onNewSource(args: {threadId: number, path: string, url: string, id: string, introductionType?: string}): void {
+		var path = args.path && existsSync(args.path) ? args.path : null;
+		if (!path) {
+			this.getSourceReference(args.threadId, args.id, args.url, args.introductionType);
+			return;
+		}
+		if (!this._loadedSources[path]) {
+			this._loadedSources[path] = new Source(basename(path), path);
+			this.sendEvent(new LoadedSourceEvent('new', this._loadedSources[path]));
+		}
+		this.onSourceLoaded(path, {threadId: args.threadId, id: args.id});
+	}
+
+	/**
+	 * Returns the Source of a script without a local file, it is announced when it is new.
+	 */
+	private getSourceReference(threadId: number, id: string, url: string, introductionType?: string): Source {
+		var key = threadId + ':' + id;
+		var source: Source = this._sourceReferences[key];
+		if (source) {
+			return source;
+		}
+		var sourceReference = this._sourceHandles.create({threadId: threadId, id: id});
+		var name = url ? basename(url.replace(/[?#].*$/, '')) || url : `${introductionType || 'script'} ${sourceReference}`;
+		source = new Source(name, undefined, sourceReference);
+		this._sourceReferences[key] = source;
+		this.sendEvent(new LoadedSourceEvent('new', source));
+		return source;
+	}
+
+	private onSourceLoaded(path: string, source: {threadId: number, id: string}): void {
+		var sources: Array<{threadId: number, id: string}> = this._sources[path] || [];
+		this._sources[path] = sources;
+		if (sources.some((s) => s.id === source.id)) {
+			return;
+		}
+		sources.push(source);
+
+		if (this._breakPoints[path]) {
+			// lazy breakpoints, or a worker loaded a script which already has breakpoints
+			this.setSourceBreakpoints(path, source).then(() => {
+				this._breakPoints[path].forEach((bp) => {
+					this.sendEvent(new BreakpointEvent('changed', bp));
+				});
+			}, (e) => {
+				this.sendEvent(new OutputEvent(`breakpoints were not set: ${e.message}\n`, 'console'));
+			});
+		}
+	}
+
+	/**
+	 * Replaces the breakpoints of the script with the file's client breakpoints.
+	 * Breakpoints are set when the script's thread is paused, a running thread is interrupted.
+	 */
+	private setSourceBreakpoints(path: string, source: {threadId: number, id: string}): Promise<void> {
+		var thread: ThreadState = this._threads[source.threadId];
+		if (!thread) {
+			return Promise.resolve(undefined);
+		}
+		var promise = thread.resumeAllowedPromise.then(() => {
+			var oldBreakpointsIds = Object.keys(this._breakpointActors).filter((actor) => {
+				// the script may be generated from several files, only this file's breakpoints are replaced
+				var info = this._breakpointActors[actor];
+				return info.sourceId === source.id && info.path === path;
+			});
+			oldBreakpointsIds.forEach((id) => {
+				delete this._breakpointActors[id];
+			});
+			if (oldBreakpointsIds.length > 0) {
 				return this._session.removeBreakpoints(oldBreakpointsIds);
 			}
 		}).then(() => {
+			var clientBreakpoints = this._clientBreakpoints[path];
+			var breakpoints = this._breakPoints[path];
+			var sourceMaps = this._session.sourceMaps;
 			var lines = new Array<number>();
+			var locations = new Array<BreakpointLocation>();
+			var hitConditions = new Array<(hitCount: number) => boolean>();
+			var generatedUrl: string = null;
 			// verify breakpoint locations
-			for (var i = 0; i < clientLines.length; i++) {
-				var l = this.convertClientLineToDebugger(clientLines[i]);
+			for (var i = 0; i < clientBreakpoints.length; i++) {
+				var l = this.convertClientLineToDebugger(clientBreakpoints[i].line);
 				lines.push(l);
+				var hitCondition = clientBreakpoints[i].hitCondition;
+				hitConditions.push(hitCondition ? parseHitCondition(hitCondition) : undefined);
+				// breakpoints in original sources are set at the generated locations
+				var generated = sourceMaps.generatedPositionFor(path, l);
+				if (generated) {
+					generatedUrl = generated.url;
+					locations.push({line: generated.line, column: generated.column});
+				} else {
+					locations.push({line: l});
+				}
+				locations[i].condition = clientBreakpoints[i].condition;
 			}
 
-			return this._session.addBreakpoints(sourceId, lines).then((items) => {
-				var breakpoints = new Array<Breakpoint>();
-				var breakpointsIds = new Array<string>();
-				items.forEach((item) => {
+			return this._session.addBreakpoints(source.id, locations).then((items) => {
+				items.forEach((item, index) => {
+					var bp = breakpoints[index];
+					if (hitConditions[index] === null) {
+						bp.message = `Invalid hit condition '${clientBreakpoints[index].hitCondition}', ` +
+							`expected e.g. '>= 5', '% 10' or '== 3'`;
+					}
 					var verified = !!item.id;
-					if (verified) {
-						breakpointsIds.push(item.id)
+					if (!verified) {
+						return;
+					}
+					var line = item.line;
+					if (sourceMaps.isOriginal(path)) {
+						var original = generatedUrl && sourceMaps.originalPositionFor(generatedUrl, item.line, item.column);
+						line = original && original.path === path ? original.line : lines[index];
+					}
+					if (!bp.verified) {
+						bp.verified = true;
+						bp.line = this.convertDebuggerLineToClient(line);
 					}
-					const bp = <DebugProtocol.Breakpoint> new Breakpoint(verified, this.convertDebuggerLineToClient(item.line));
-					bp.id = this._breakpointId++;
-					breakpoints.push(bp);
+					this._breakpointActors[item.id] = {
+						id: bp.id,
+						sourceId: source.id,
+						path: path,
+						line: line,
+						hitCondition: hitConditions[index],
+						hitCount: 0,
+						logMessage: (<any>clientBreakpoints[index]).logMessage
+					};
 				});
-				this._breakPoints[path] = breakpoints;
-				this._breakPointsIds[path] = breakpointsIds;
+			});
+		});
+		// the callers report the failure, the thread is resumed anyway
+		thread.resumeAllowedPromise = promise.catch((e) => undefined);
+		// e.g. the scripts of a new page are loaded, the thread is resumed once the breakpoints are set
+		this.interruptToConfigure(thread);
+		return promise.catch((e) => {
+			if (e instanceof Error) {
+				throw e;
+			}
+			// the thread has exited, the page navigated or the session stops, its breakpoints are gone
+		});
+	}
 
-				return breakpoints;
+	/**
+	 * Interrupts the running thread without reporting the pause, it is resumed with
+	 * the current exception settings once the requests chained to resumeAllowedPromise are done.
+	 */
+	private interruptToConfigure(thread: ThreadState): void {
+		if (!thread.running || thread.interruptedToConfigure) {
+			return;
+		}
+		thread.interruptedToConfigure = true;
+		thread.resumedPromise.then(() => this._session.interrupt(thread.id)).catch((e) => {
+			// the thread has exited meanwhile
+		});
+	}
+
+	protected setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): void {
+
+		var path = args.source.path;
+		var clientBreakpoints: DebugProtocol.SourceBreakpoint[] = args.breakpoints ||
+			args.lines.map((line) => ({line: line}));
+		var breakpoints = clientBreakpoints.map((clientBreakpoint) => {
+			const bp = <DebugProtocol.Breakpoint> new Breakpoint(false, clientBreakpoint.line);
+			bp.id = this._breakpointId++;
+			return bp;
+		});
+
+		var setBreakpoints = () => {
+			this._breakPoints[path] = breakpoints;
+			this._clientBreakpoints[path] = clientBreakpoints;
+
+			// the breakpoints of a file which is not loaded yet are set once its script is loaded
+			var sources: Array<{threadId: number, id: string}> = this._sources[path] || [];
+			Promise.all(sources.map((source) => this.setSourceBreakpoints(path, source))).then(() => {
+				// send back the actual breakpoint positions
+				response.body = {
+					breakpoints: breakpoints
+				};
+				this.sendResponse(response);
+			}, (e) => {
+				this.sendErrorResponse(response, 3009, `Cannot set the breakpoints: ${e.message}`);
 			});
-		}).then((breakpoints) => {
-			// send back the actual breakpoint positions
+		};
+		// the frontend sets breakpoints while we are connecting, they are verified in the page's scripts
+		if (this._pageAttached) {
+			setBreakpoints();
+		} else {
+			this._pendingBreakpointRequests.push(setBreakpoints);
+		}
+	}
+
+	private onPageAttached(): void {
+		if (this._pageAttached) {
+			return;
+		}
+		this._pageAttached = true;
+		this._pendingBreakpointRequests.forEach((setBreakpoints) => setBreakpoints());
+		this._pendingBreakpointRequests = [];
+	}
+
+	protected sourceRequest(response: DebugProtocol.SourceResponse, args: DebugProtocol.SourceArguments): void {
+		var reference = this._sourceHandles.get(args.sourceReference);
+		if (!reference) {
+			this.sendErrorResponse(response, 3004, 'Unknown source');
+			return;
+		}
+		this._session.getSourceText(reference.threadId, reference.id).then((text) => {
 			response.body = {
-				breakpoints: breakpoints
+				content: text,
+				mimeType: 'text/javascript'
 			};
 			this.sendResponse(response);
+		}).catch((e) => {
+			this.sendErrorResponse(response, 3004, `Cannot load the source: ${e.message}`);
 		});
 	}
 
+	protected loadedSourcesRequest(response: DebugProtocol.LoadedSourcesResponse, args: DebugProtocol.LoadedSourcesArguments): void {
+		var sources: Source[] = [];
+		Object.keys(this._loadedSources).forEach((path) => {
+			sources.push(this._loadedSources[path]);
+		});
+		Object.keys(this._sourceReferences).forEach((key) => {
+			sources.push(this._sourceReferences[key]);
+		});
+		response.body = {
+			sources: sources
+		};
+		this.sendResponse(response);
+	}
+
+	protected setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments): void {
+		var filters = args.filters;
+		this._exceptionBreakMode = filters.indexOf('all') >= 0 ? 'always' :
+			filters.indexOf('uncaught') >= 0 ? 'unhandled' : 'never';
+		this._session.setPauseOnExceptions(this._exceptionBreakMode !== 'never', this._exceptionBreakMode === 'unhandled');
+		// the thread actor takes the settings when it resumes, running threads are interrupted for that
+		Object.keys(this._threads).forEach((id) => {
+			this.interruptToConfigure(this._threads[id]);
+		});
+		this.sendResponse(response);
+	}
+
+	protected exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments): void {
+		var thread: ThreadState = this._threads[args.threadId];
+		var exception = thread && thread.exception;
+		if (!exception) {
+			this.sendErrorResponse(response, 3002, 'The thread is not stopped on an exception');
+			return;
+		}
+		response.body = {
+			exceptionId: exception.className,
+			description: exception.message,
+			breakMode: <DebugProtocol.ExceptionBreakMode> this._exceptionBreakMode,
+			details: {
+				message: exception.message,
+				typeName: exception.className,
+				stackTrace: exception.stack
+			}
+		};
+		this.sendResponse(response);
+	}
+
 	protected threadsRequest(response: DebugProtocol.ThreadsResponse): void {
 
-		// return the default thread
+		// the page's thread and the workers
 		response.body = {
-			threads: [
-				new Thread(FirefoxDebugSession.THREAD_ID, "thread 1")
-			]
+			threads: Object.keys(this._threads).map((id) => {
+				var thread: ThreadState = this._threads[id];
+				return new Thread(thread.id, thread.name);
+			})
 		};
 		this.sendResponse(response);
 	}
 
 	protected stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments): void {
-		this._session.getStackTrace((<any>args).startFrame, args.levels).then(
-				(stack: Array<{name: string, source: string, line: number}>) => {
+		var threadId = args.threadId;
+		var startFrame: number = (<any>args).startFrame || 0;
+		this._session.getStackTrace(threadId, startFrame, args.levels).then(
+				(stack: StackFrameInfo[]) => {
 			const frames = new Array<StackFrame>();
-			stack.forEach((f: {name: string, source: string, line: number}, index: number) => {
-				var path = this.convertDebuggerPathToClient(f.source);
-				frames.push(new StackFrame(
-						index,
-						`${f.name}(${index})`,
-						new Source(basename(path), path),
-						this.convertDebuggerLineToClient(f.line),
-						0)
-				);
+			stack.forEach((f: StackFrameInfo, index: number) => {
+				var path: string, line: number, column: number;
+				var original = this._session.sourceMaps.originalPositionFor(f.source, f.line, f.column);
+				if (original) {
+					path = original.path;
+					line = original.line;
+					column = original.column;
+				} else {
+					path = f.source ? this.convertDebuggerPathToClient(f.source) : null;
+					line = f.line;
+					column = f.column;
+				}
+				var source = path && existsSync(path) ? new Source(basename(path), path) :
+					this.getSourceReference(threadId, f.sourceActor, f.source);
+				var depth = startFrame + index;
+				var frame = new StackFrame(
+						this._frameHandles.create({threadId: threadId, frame: depth}),
+						`${f.name}(${depth})`,
+						source,
+						this.convertDebuggerLineToClient(line),
+						this.convertDebuggerColumnToClient(column));
+				if (f.blackboxed) {
+					(<DebugProtocol.StackFrame> frame).presentationHint = 'subtle';
+				}
+				frames.push(frame);
 			});
 			response.body = {
 				stackFrames: frames
 			};
 			this.sendResponse(response);
+		}, (e) => {
+			this.sendErrorResponse(response, 3006, `Cannot get the stack trace: ${e.message}`);
 		});
 	}
 
 	protected scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
-		const frameReference = args.frameId;
-		this._session.getScopes(frameReference).then((items) => {
+		const frameReference = this._frameHandles.get(args.frameId);
+		if (!frameReference) {
+			this.sendErrorResponse(response, 3007, 'Unknown frame');
+			return;
+		}
+		this._session.getScopes(frameReference.threadId, frameReference.frame).then((items) => {
 			const scopes = new Array<Scope>();
-			items.forEach((item) => {
+			items.forEach((item, index) => {
 
-				scopes.push(new Scope(item.type, this._variableHandles.create(item.id), item.type === 'Global'));
+				var variablesReference = this._variableHandles.create({
+					threadId: frameReference.threadId, frame: frameReference.frame, id: item.id, expression: '',
+					innerScopes: items.slice(0, index).map((inner) => inner.id)});
+				scopes.push(new Scope(item.type, variablesReference, item.type === 'Global'));
 			});
 
 			response.body = {
 				scopes: scopes
 			};
 			this.sendResponse(response);
+		}, (e) => {
+			this.sendErrorResponse(response, 3007, `Cannot get the scopes: ${e.message}`);
 		});
 	}
 
 	protected variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments): void {
-		const id = this._variableHandles.get(args.variablesReference);
-		this._session.getVariables(id).then((items) => {
+		const reference = this._variableHandles.get(args.variablesReference);
+		if (!reference) {
+			this.sendErrorResponse(response, 3008, 'Unknown variables reference');
+			return;
+		}
+		var itemsLoaded = reference.items ? Promise.resolve(reference.items) :
+			this._session.getVariables(reference.threadId, reference.id);
+		itemsLoaded.then((items) => {
 			const variables = [];
 			items.forEach((item) => {
 				variables.push({
 					name: item.name,
 					value: item.value.display,
-					variablesReference: !item.value.id ? 0 : this._variableHandles.create(item.value.id)
+					variablesReference: !item.value.id ? 0 : this._variableHandles.create({
+						threadId: reference.threadId, frame: reference.frame, id: item.value.id,
+						expression: childExpression(reference.expression, item.name), evaluated: reference.evaluated})
 				});
 			});
 			response.body = {
 				variables: variables
 			};
 			this.sendResponse(response);
-		}).catch(_ => {
+		}).catch((e) => {
+			this.sendErrorResponse(response, 3008, `Cannot get the variables: ${e.message}`);
+		});
+	}
+
+	protected pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments): void {
+		var thread: ThreadState = this._threads[args.threadId];
+		if (!thread) {
+			this.sendErrorResponse(response, 3012, 'Unknown thread');
+			return;
+		}
+		// the pause is reported by a 'paused' notification with the reason 'interrupted'
+		thread.resumedPromise.then(() => this._session.interrupt(thread.id)).catch((e) => {
+			// the thread has exited meanwhile
+		});
+		this.sendResponse(response);
+	}
+
+	protected setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): void {
+		const reference = this._variableHandles.get(args.variablesReference);
+		if (!reference) {
+			this.sendErrorResponse(response, 3003, 'Unknown variables reference');
+			return;
+		}
+		var target = childExpression(reference.expression, args.name);
+		if (target === undefined && !reference.evaluated) {
+			this.sendErrorResponse(response, 3003, `Cannot set ${args.name}: the value is not in a frame`);
+			return;
+		}
+		var assigned: Promise<ResultVariable>;
+		if (reference.evaluated) {
+			// the property is assigned through its object, the evaluation must not run again
+			assigned = this._session.setProperty(reference.threadId, reference.id, args.name, args.value, reference.frame);
+		} else {
+			// the assignment is evaluated in the frame, it must not change a variable of an inner scope instead
+			var shadowed = reference.innerScopes && reference.innerScopes.length > 0 ?
+				this.isShadowed(reference.threadId, reference.innerScopes, args.name) : Promise.resolve(false);
+			assigned = shadowed.then((isShadowed) => {
+				if (isShadowed) {
+					throw new Error('it is shadowed by a variable of an inner scope');
+				}
+				return this._session.setVariable(reference.threadId, target, args.value, reference.frame);
+			});
+		}
+		assigned.then((result) => {
 			response.body = {
-				variables: []
+				value: result.display,
+				variablesReference: !result.id ? 0 : this._variableHandles.create({
+					threadId: reference.threadId, frame: reference.frame, id: result.id, expression: target,
+					evaluated: reference.evaluated})
 			};
 			this.sendResponse(response);
+		}, (e) => {
+			this.sendErrorResponse(response, 3003, `Cannot set ${args.name}: ${e.message}`);
+		});
+	}
+
+	private isShadowed(threadId: number, scopeIds: string[], name: string): Promise<boolean> {
+		return Promise.all(scopeIds.map((id) => this._session.getVariables(threadId, id))).then((scopes) => {
+			return scopes.some((variables) => variables.some((variable) => variable.name === name));
 		});
 	}
 
 	protected continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments): void {
-		this.resume();
-		this.sendResponse(response);
+		this.resumeRequest(response, args.threadId);
 	}
 
 	protected nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): void {
-		this.resume('next');
-		this.sendResponse(response);
+		this.resumeRequest(response, args.threadId, 'next');
 	}
 
 	protected stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): void {
-		this.resume('step');
-		this.sendResponse(response);
+		this.resumeRequest(response, args.threadId, 'step');
 	}
 
 	protected stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): void {
-		this.resume('finish');
+		this.resumeRequest(response, args.threadId, 'finish');
+	}
+
+	// answers a continue or step request of the client
+	private resumeRequest(response: DebugProtocol.Response, threadId: number, resumeLimit?: string): void {
+		if (!this._threads[threadId]) {
+			this.sendErrorResponse(response, 3012, 'Unknown thread');
+			return;
+		}
+		this.resume(threadId, resumeLimit);
 		this.sendResponse(response);
 	}
 
 	protected evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): void {
-		this._session.evaluate(args.expression, args.frameId).then((result) => {
+		var frameReference = args.frameId !== undefined ? this._frameHandles.get(args.frameId) : undefined;
+		if (args.frameId !== undefined && !frameReference) {
+			this.sendErrorResponse(response, 3011, 'Unknown frame');
+			return;
+		}
+		var threadId = frameReference ? frameReference.threadId : MainThreadId;
+		var frame = frameReference ? frameReference.frame : undefined;
+		var fullText = args.context === 'clipboard';
+		this._session.evaluate(threadId, args.expression, frame, fullText).then((result) => {
 			response.body = {
 				result: result.display,
-				variablesReference: !result.id ? 0 : this._variableHandles.create(result.id)
+				variablesReference: !result.id ? 0 : this._variableHandles.create({
+					threadId: threadId, frame: frame, id: result.id, expression: undefined, evaluated: true})
 			};
 			this.sendResponse(response);
-		}, (reason) => {
+		}, (e) => {
+			// exceptions thrown by the expression are results, this is a failure of the evaluation
+			this.sendErrorResponse(response, 3011, `Cannot evaluate: ${e.message}`);
+		});
+	}
+
+	protected completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): void {
+		var frameReference = args.frameId !== undefined ? this._frameHandles.get(args.frameId) : undefined;
+		var threadId = frameReference ? frameReference.threadId : MainThreadId;
+		var frame = frameReference ? frameReference.frame : undefined;
+		// the cursor is the offset in the whole text
+		var lines = args.text.split('\n');
+		var line = args.line !== undefined ? this.convertClientLineToDebugger(args.line) - 1 : 0;
+		var cursor = this.convertClientColumnToDebugger(args.column);
+		lines.slice(0, line).forEach((text) => {
+			cursor += text.length + 1;
+		});
+		this._session.getCompletions(threadId, args.text, cursor, frame).then((result) => {
+			var beforeName = args.text.substring(0, cursor - result.matchProp.length);
+			var type: DebugProtocol.CompletionItemType = /\.\s*$/.test(beforeName) ? 'property' : 'variable';
+			response.body = {
+				targets: result.matches.map((match) => {
+					return <DebugProtocol.CompletionItem> {
+						label: match,
+						type: result.functions.indexOf(match) >= 0 ? 'function' : type,
+						start: args.column - result.matchProp.length,
+						length: result.matchProp.length
+					};
+				})
+			};
+			this.sendResponse(response);
+		}, (e) => {
 			response.body = {
-				result: 'eval error: ' + reason,
-				variablesReference: 0
+				targets: []
 			};
 			this.sendResponse(response);
 		});
 	}
 
+	protected customRequest(command: string, response: DebugProtocol.Response, args: any): void {
+		switch (command) {
+			case 'toggleSkippingFile':
+				// blackboxes the source of the frame or stops blackboxing it
+				var frameReference = this._frameHandles.get(args.frameId);
+				if (!frameReference) {
+					this.sendErrorResponse(response, 3005, 'Unknown frame');
+					return;
+				}
+				this._session.toggleBlackboxing(frameReference.threadId, frameReference.frame).then((skipped) => {
+					response.body = {
+						skipped: skipped
+					};
+					this.sendResponse(response);
+				}, (e) => {
+					this.sendErrorResponse(response, 3005, `Cannot toggle skipping the file: ${e.message}`);
+				});
+				return;
+		}
+		super.customRequest(command, response, args);
+	}
+
 	protected disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments): void {
-		this._pausedCapability.reject('stopping');
-		Object.keys(this._pendingSourceCapabilities).forEach((key) => {
-			if (this._pendingSourceCapabilities[key]) {
-				this._pendingSourceCapabilities.reject('stopping');
-			}
+		Object.keys(this._threads).forEach((id) => {
+			this._threads[id].pausedCapability.reject('stopping');
 		});
 		this.sendEvent(new OutputEvent('stopping'));
 
-		this._session.stop();
-		this._session = null;
+		var done = () => {
+			this._session = null;
 
-		this.sendResponse(response);
-		this.shutdown();
+			this.sendResponse(response);
+			this.shutdown();
+		};
+		this._session.stop().then(done, done);
 	}
 
 	protected convertClientPathToDebugger(path: string): string {
@@ -0,0 +1,121 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// milliseconds without changes before they are reported
+const DefaultSettleDelay: number = 200;
+
+// names of the directories which are not watched, besides hidden ones
+const DefaultIgnoredNames = ['node_modules'];
+
+/**
+ * Watches the files under a directory and reports their changes once they settle,
+ * e.g. after an editor saved several files. Hidden files and directories (such as
+ * '.git' or swap files of editors) and the ignored names (e.g. 'node_modules')
+ * are ignored, ignored directories are not watched.
+ */
+export class FileWatcher {
+	// maps from the path of a watched directory (relative to the root, '' for the root) to its watcher
+	private _watchers: any;
+	private _timer: NodeJS.Timer;
+	// the changed paths (relative to the root) since the last report
+	private _changed: string[];
+
+	public constructor(private _root: string, private _onChange: (paths: string[]) => void,
+										 private _delay: number = DefaultSettleDelay,
+										 private _ignoredNames: string[] = DefaultIgnoredNames) {
+		this._watchers = Object.create(null);
+		this._timer = null;
+		this._changed = [];
+		// recursive watching is not supported on Linux, every directory is watched by itself
+		this.watchDirectory('', false);
+	}
+
+	public close(): void {
+		clearTimeout(this._timer);
+		this._timer = null;
+		Object.keys(this._watchers).forEach((dir) => this._watchers[dir].close());
+		this._watchers = Object.create(null);
+	}
+
+	/**
+	 * Watches the directory and its subdirectories, the files of a new directory
+	 * are reported as they may have been created before it was watched.
+	 */
+	private watchDirectory(dir: string, created: boolean): void {
+		var absolute = path.join(this._root, dir);
+		var names: string[];
+		try {
+			this._watchers[dir] = fs.watch(absolute, (event, filename) => {
+				if (filename) {
+					this.onEvent(path.join(dir, filename));
+				}
+			}).on('error', () => this.unwatchDirectory(dir));
+			names = fs.readdirSync(absolute);
+		} catch (e) {
+			// the directory was removed meanwhile
+			this.unwatchDirectory(dir);
+			return;
+		}
+		names.forEach((name) => {
+			var child = path.join(dir, name);
+			if (created) {
+				this.onEvent(child);
+			} else if (!this.isIgnored(child) && isDirectory(path.join(this._root, child))) {
+				this.watchDirectory(child, false);
+			}
+		});
+	}
+
+	// stops watching the directory and its subdirectories
+	private unwatchDirectory(dir: string): void {
+		Object.keys(this._watchers).forEach((watched) => {
+			if (watched === dir || watched.indexOf(dir + path.sep) === 0) {
+				this._watchers[watched].close();
+				delete this._watchers[watched];
+			}
+		});
+	}
+
+	private isIgnored(filename: string): boolean {
+		return filename.split(/[\\/]/).some((segment) => {
+			return segment.charAt(0) === '.' || this._ignoredNames.indexOf(segment) >= 0;
+		});
+	}
+
+	private onEvent(filename: string): void {
+		if (this.isIgnored(filename)) {
+			return;
+		}
+		if (isDirectory(path.join(this._root, filename))) {
+			if (!this._watchers[filename]) {
+				this.watchDirectory(filename, true);
+			}
+		} else if (this._watchers[filename]) {
+			this.unwatchDirectory(filename);
+		}
+		if (this._changed.indexOf(filename) < 0) {
+			this._changed.push(filename);
+		}
+		clearTimeout(this._timer);
+		this._timer = setTimeout(() => {
+			var changed = this._changed;
+			this._timer = null;
+			this._changed = [];
+			this._onChange(changed);
+		}, this._delay);
+	}
+}
+
+function isDirectory(file: string): boolean {
+	try {
+		return fs.statSync(file).isDirectory();
+	} catch (e) {
+		return false;
+	}
+}
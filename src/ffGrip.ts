@@ -0,0 +1,217 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+/**
+ * Renders a grip (the protocol's description of a value) for variables,
+ * evaluation results and console output, using the object preview if
+ * the server sent one.
+ */
+export function formatGrip(value: any): string {
+	if (typeof value !== 'object' || value === null) {
+		return JSON.stringify(value);
+	}
+	switch (value.type) {
+		case 'null':
+		case 'undefined':
+		case 'Infinity':
+		case '-Infinity':
+		case 'NaN':
+		case '-0':
+			return value.type;
+		case 'longString':
+			// the full text can be fetched from the longString actor
+			return `${JSON.stringify(value.initial + '…')} (${value.length} characters)`;
+		case 'symbol':
+			return `Symbol(${value.name || ''})`;
+		case 'object':
+			return formatObject(value);
+	}
+	return `[object ${value.class}]`;
+}
+
+/**
+ * Like formatGrip, but strings are not quoted.
+ */
+export function gripToText(value: any): string {
+	if (typeof value === 'string') {
+		return value;
+	}
+	if (typeof value === 'object' && value !== null && value.type === 'longString') {
+		return value.initial + '…';
+	}
+	return formatGrip(value);
+}
+
+function formatObject(grip: any): string {
+	switch (grip.class) {
+		case 'Function':
+			return `function ${grip.displayName || grip.name || ''}(${(grip.parameterNames || []).join(', ')})`;
+		case 'Date':
+			var timestamp = grip.preview && grip.preview.timestamp;
+			return typeof timestamp === 'number' ? `Date ${new Date(timestamp).toISOString()}` : 'Invalid Date';
+		case 'RegExp':
+			if (grip.displayString) {
+				return `RegExp ${gripToText(grip.displayString)}`;
+			}
+			break;
+	}
+	var preview = grip.preview;
+	if (!preview) {
+		return formatNestedObject(grip);
+	}
+	switch (preview.kind) {
+		case 'ArrayLike':
+			var items: string[] = (preview.items || []).map(formatNested);
+			if (preview.length > items.length) {
+				items.push('…');
+			}
+			var isSet = grip.class === 'Set' || grip.class === 'WeakSet';
+			return isSet ? `${grip.class}(${preview.length}) {${items.join(', ')}}` :
+				`${grip.class}(${preview.length}) [${items.join(', ')}]`;
+		case 'MapLike':
+			var entries: string[] = (preview.entries || []).map((entry) => {
+				return `${formatNested(entry[0])} → ${formatNested(entry[1])}`;
+			});
+			if (preview.size > entries.length) {
+				entries.push('…');
+			}
+			return `${grip.class}(${preview.size}) {${entries.join(', ')}}`;
+		case 'Error':
+			return `${preview.name || grip.class}: ${gripToText(preview.message)}`;
+		case 'DOMNode':
+			if (preview.nodeName) {
+				var attributes = preview.attributes || {};
+				var text = Object.keys(attributes).map((name) => ` ${name}="${attributes[name]}"`).join('');
+				return `<${preview.nodeName}${text}>`;
+			}
+			break;
+		case 'Object':
+			var properties: string[] = Object.keys(preview.ownProperties || {}).map((name) => {
+				var desc = preview.ownProperties[name];
+				return `${name}: ${'value' in desc ? formatNested(desc.value) : 'Getter'}`;
+			});
+			if (preview.ownPropertiesLength > properties.length) {
+				properties.push('…');
+			}
+			var prefix = grip.class === 'Object' ? '' : grip.class + ' ';
+			return `${prefix}{${properties.join(', ')}}`;
+	}
+	return formatNestedObject(grip);
+}
+
+// values inside a preview are shown briefly, objects only by their class
+function formatNested(value: any): string {
+	if (typeof value !== 'object' || value === null || value.type !== 'object') {
+		return formatGrip(value);
+	}
+	return formatNestedObject(value);
+}
+
+function formatNestedObject(grip: any): string {
+	switch (grip.class) {
+		case 'Object':
+			return '{…}';
+		case 'Function':
+			return `function ${grip.displayName || grip.name || ''}`;
+		case 'Array':
+			if (grip.preview && typeof grip.preview.length === 'number') {
+				return `Array(${grip.preview.length})`;
+			}
+			break;
+	}
+	return grip.class;
+}
+
+const FormatSpecifierPattern = /%[sdifoOc%]/g;
+
+/**
+ * Formats the arguments of a console call, applying the format specifiers
+ * (%s, %d, %i, %f, %o, %O, %c) of the first argument.
+ */
+export function formatMessage(values: Array<any>): string {
+	var rest = values.slice();
+	var parts: string[] = [];
+	if (typeof rest[0] === 'string') {
+		var format: string = rest.shift();
+		parts.push(format.replace(FormatSpecifierPattern, (specifier) => {
+			if (specifier === '%%') {
+				return '%';
+			}
+			if (rest.length === 0) {
+				return specifier;
+			}
+			var value = rest.shift();
+			switch (specifier) {
+				case '%s':
+					return gripToText(value);
+				case '%d':
+				case '%i':
+					return typeof value === 'number' ? String(value < 0 ? Math.ceil(value) : Math.floor(value)) : 'NaN';
+				case '%f':
+					return typeof value === 'number' ? String(value) : 'NaN';
+				case '%c':
+					// styles are not supported in the debug console
+					return '';
+			}
+			return formatGrip(value);
+		}));
+	}
+	rest.forEach((value) => {
+		parts.push(gripToText(value));
+	});
+	return parts.join(' ');
+}
+
+/**
+ * Renders the argument of console.table as a text table using its preview,
+ * the columns are the properties of the rows.
+ */
+export function formatTable(grip: any): string {
+	var preview = typeof grip === 'object' && grip !== null && grip.preview;
+	var rows: Array<{name: string, value: any}> = [];
+	if (preview && preview.kind === 'ArrayLike') {
+		rows = (preview.items || []).map((item, index) => ({name: String(index), value: item}));
+	} else if (preview && preview.kind === 'Object') {
+		var ownProperties = preview.ownProperties || {};
+		rows = Object.keys(ownProperties).map((name) => ({name: name, value: ownProperties[name].value}));
+	}
+	if (rows.length === 0) {
+		return formatGrip(grip);
+	}
+	var columns: string[] = [];
+	var cells = rows.map((row) => {
+		var rowCells = Object.create(null);
+		getProperties(row.value).forEach((property) => {
+			if (columns.indexOf(property.name) < 0) {
+				columns.push(property.name);
+			}
+			// getters have no value in the preview
+			rowCells[property.name] = formatNested(property.value) || '';
+		});
+		return rowCells;
+	});
+	var lines = [['(index)'].concat(columns)].concat(rows.map((row, index) => {
+		return [row.name].concat(columns.map((column) => cells[index][column] || ''));
+	}));
+	var widths = lines[0].map((_, column) => Math.max.apply(Math, lines.map((line) => line[column].length)));
+	return lines.map((line) => {
+		var text = line.map((cell, column) => cell + new Array(widths[column] - cell.length + 1).join(' ')).join(' | ');
+		return text.replace(/\s+$/, '');
+	}).join('\n');
+}
+
+// the properties of a table row, primitive rows have a single 'Value' column
+function getProperties(value: any): Array<{name: string, value: any}> {
+	var preview = typeof value === 'object' && value !== null && value.type === 'object' && value.preview;
+	if (!preview) {
+		return [{name: 'Value', value: value}];
+	}
+	if (preview.kind === 'ArrayLike') {
+		return (preview.items || []).map((item, index) => ({name: String(index), value: item}));
+	}
+	var ownProperties = preview.ownProperties || {};
+	return Object.keys(ownProperties).map((name) => ({name: name, value: ownProperties[name].value}));
+}
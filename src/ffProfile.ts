@@ -0,0 +1,132 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// the debugger server is started without asking the user
+const DebuggingPreferences = {
+	'browser.shell.checkDefaultBrowser': false,
+	'devtools.chrome.enabled': true,
+	'devtools.debugger.prompt-connection': false,
+	'devtools.debugger.remote-enabled': true
+};
+
+// the preferences of the adapter are written between these lines of user.js, the other lines are kept
+const PreferencesStart = '// start of the debugger preferences, written on every launch\n';
+const PreferencesEnd = '// end of the debugger preferences\n';
+
+// files of a running Firefox which must not be copied from a template
+const LockFiles = ['lock', '.parentlock', 'parent.lock'];
+
+export interface ProfileOptions {
+	// a persistent profile, by default a temporary profile is created
+	profileDir?: string;
+	// the directory of a profile copied into new profiles, e.g. with extensions
+	profileTemplate?: string;
+	// maps from preference name to its boolean, number or string value
+	preferences?: any;
+}
+
+export interface Profile {
+	dir: string;
+	// removed when the debug session ends
+	temporary: boolean;
+}
+
+function copyDirectory(source: string, target: string): void {
+	if (!fs.existsSync(target)) {
+		fs.mkdirSync(target);
+	}
+	fs.readdirSync(source).forEach((name) => {
+		if (LockFiles.indexOf(name) >= 0) {
+			return;
+		}
+		var sourcePath = path.join(source, name);
+		var targetPath = path.join(target, name);
+		var stats = fs.lstatSync(sourcePath);
+		if (stats.isDirectory()) {
+			copyDirectory(sourcePath, targetPath);
+		} else if (stats.isFile()) {
+			fs.writeFileSync(targetPath, fs.readFileSync(sourcePath));
+		}
+	});
+}
+
+function removeDirectory(dir: string): void {
+	fs.readdirSync(dir).forEach((name) => {
+		var entry = path.join(dir, name);
+		if (fs.lstatSync(entry).isDirectory()) {
+			removeDirectory(entry);
+		} else {
+			fs.unlinkSync(entry);
+		}
+	});
+	fs.rmdirSync(dir);
+}
+
+/**
+ * Returns the lines of a user.js file, Firefox applies them on every start.
+ */
+export function formatPreferences(preferences: any): string {
+	return Object.keys(preferences).map((name) => {
+		return `user_pref(${JSON.stringify(name)}, ${JSON.stringify(preferences[name])});\n`;
+	}).join('');
+}
+
+// replaces the marked preferences of the user.js file, they follow the user's own ones to override them
+function writePreferences(file: string, preferences: any): void {
+	var text = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+	var start = text.indexOf(PreferencesStart);
+	var end = start >= 0 ? text.indexOf(PreferencesEnd, start) : -1;
+	if (end >= 0) {
+		text = text.slice(0, start) + text.slice(end + PreferencesEnd.length);
+	}
+	if (text && text.charAt(text.length - 1) !== '\n') {
+		text += '\n';
+	}
+	fs.writeFileSync(file, text + PreferencesStart + formatPreferences(preferences) + PreferencesEnd);
+}
+
+/**
+ * Creates the profile (from the template if it is new) and writes the debugging
+ * preferences and the given ones to its user.js, keeping the other preferences
+ * of the file. Throws if the profile cannot be created.
+ */
+export function prepareProfile(options: ProfileOptions): Profile {
+	var profile: Profile = options.profileDir ?
+		{dir: options.profileDir, temporary: false} :
+		{dir: path.join(os.tmpdir(), `vscode-firefox-debug-profile-${process.pid}-${Date.now()}`), temporary: true};
+	var exists = false;
+	try {
+		exists = fs.lstatSync(profile.dir).isDirectory();
+	} catch (e) {}
+	if (!exists) {
+		if (options.profileTemplate) {
+			copyDirectory(options.profileTemplate, profile.dir);
+		} else {
+			fs.mkdirSync(profile.dir);
+		}
+	}
+	var preferences = Object.create(null);
+	[DebuggingPreferences, options.preferences || {}].forEach((source) => {
+		Object.keys(source).forEach((name) => {
+			preferences[name] = source[name];
+		});
+	});
+	writePreferences(path.join(profile.dir, 'user.js'), preferences);
+	return profile;
+}
+
+/**
+ * Removes a temporary profile, persistent profiles are kept.
+ */
+export function removeProfile(profile: Profile): void {
+	if (profile.temporary && fs.existsSync(profile.dir)) {
+		removeDirectory(profile.dir);
+	}
+}
@@ -5,36 +5,99 @@
 "use strict";
 
 import {connect, Socket} from 'net';
+import {TraceRecorder} from './ffTrace';
+
+const BulkHeaderPattern = /^bulk ([^ ]+) ([^ ]+) (\d+):$/;
+// the longest header is 'bulk <actor> <type> <length>:', actor names are short
+const MaxHeaderLength = 1024;
+
+export class ProtocolError extends Error {
+	public constructor(message: string) {
+		super(message);
+		this.message = message;
+	}
+}
+
+export interface BulkPacket {
+	actor: string;
+	type: string;
+	data: Buffer;
+}
 
 export class FirefoxProtocol {
 	private _client: Socket;
 	private _state: string;
+	private _closing: boolean;
+	// records the exchanged packets if set
+	public trace: TraceRecorder;
 
 	public constructor() {
 		this._state = 'disconnected';
+		this._closing = false;
+		this.trace = null;
 	}
 
 	public connect(port: number): Promise<void> {
 		this._state = 'connecting';
 		return new Promise<void>((resolve, reject) => {
 			var client: Socket = connect(port, () => {
-				console.log('connected to firefox');
-				this._state = 'connected';
 				this.setupSocket(client);
 				resolve();
 			});
+			client.on('error', (e) => {
+				if (this._state !== 'connecting') {
+					return;
+				}
+				// e.g. ECONNREFUSED when the debugger server is not started yet
+				this._state = 'disconnected';
+				client.destroy();
+				reject(e);
+			});
 		});
 	}
 
+	public get connected(): boolean {
+		return this._state === 'connected';
+	}
+
+	public disconnect(): void {
+		if (this._state !== 'connected') {
+			return;
+		}
+		this._closing = true;
+		this._client.end();
+	}
+
 	protected onExecuteCommand(body: any): void {
 
 	}
 
-	protected onDisconnect(): void  {
+	protected onBulkPacket(packet: BulkPacket): void {
+
+	}
+
+	/**
+	 * Malformed packets are skipped, the connection stays open.
+	 */
+	protected onProtocolError(e: ProtocolError): void {
+
+	}
+
+	/**
+	 * The error is set if the connection was lost, not closed by disconnect().
+	 */
+	protected onDisconnect(error?: Error): void  {
 
 	}
 
 	protected sendResponse(body: any): void {
+		if (this._state !== 'connected') {
+			this.onProtocolError(new ProtocolError('not connected, packet dropped: ' + JSON.stringify(body)));
+			return;
+		}
+		if (this.trace) {
+			this.trace.record('sent', body);
+		}
 		var buffer = new Buffer(JSON.stringify(body));
 		var headerBytes = new Buffer(buffer.length + ':');
 		var data = Buffer.concat([headerBytes, buffer]);
@@ -42,15 +105,40 @@ export class FirefoxProtocol {
 	}
 
 	protected setupSocket(client: Socket): void  {
+		this._state = 'connected';
 		var ffBuffer = new Buffer(0);
+		var socketError: Error = null;
 		client.on('data', (data) => {
 			var newBuffer = Buffer.concat([ffBuffer, data], ffBuffer.length + data.length);
 			var pos = 0;
 			var parseResult;
-			while (pos < newBuffer.length &&
-						 (parseResult = this.parseFirefoxPacket(newBuffer, pos))) {
-				this.onExecuteCommand(parseResult.body);
+			while (pos < newBuffer.length) {
+				try {
+					parseResult = this.parseFirefoxPacket(newBuffer, pos);
+				} catch (e) {
+					// the framing is lost, skip the received data and hope for the next packet
+					this.onProtocolError(e);
+					pos = newBuffer.length;
+					break;
+				}
+				if (!parseResult) {
+					break;
+				}
 				pos = parseResult.lastPos;
+				if (parseResult.bulk) {
+					if (this.trace) {
+						var bulk: BulkPacket = parseResult.bulk;
+						this.trace.recordBulk(bulk.actor, bulk.type, bulk.data.length);
+					}
+					this.onBulkPacket(parseResult.bulk);
+				} else if (parseResult.error) {
+					this.onProtocolError(parseResult.error);
+				} else {
+					if (this.trace) {
+						this.trace.record('received', parseResult.body);
+					}
+					this.onExecuteCommand(parseResult.body);
+				}
 			}
 			if (pos < newBuffer.length) {
 				ffBuffer = newBuffer.slice(pos);
@@ -59,36 +147,71 @@ export class FirefoxProtocol {
 			}
 		});
 
+		client.on('error', (e) => {
+			// 'close' follows
+			socketError = e;
+		});
+
 		client.on('end', () => {
 			client.end();
-			console.log('client disconnected');
+		});
+
+		client.on('close', () => {
 			this._state = 'disconnected';
-			this.onDisconnect();
+			if (this.trace) {
+				this.trace.close();
+			}
+			var error = this._closing ? undefined : (socketError || new Error('Firefox closed the connection'));
+			this.onDisconnect(error);
 		});
 		this._client = client;
 	}
 
-	private parseFirefoxPacket(buffer: Buffer, pos: number): {lastPos: number; body: Object} {
+	private parseFirefoxPacket(buffer: Buffer, pos: number):
+			{lastPos: number; body?: Object; bulk?: BulkPacket; error?: ProtocolError} {
 		var i = pos;
 		// find next ":"
-		while (i < buffer.length && buffer[i] >= 0x30 && buffer[i] <= 0x39) {
+		while (i < buffer.length && buffer[i] !== 0x3a && i - pos < MaxHeaderLength) {
 			i++;
 		}
 		if (i >= buffer.length) {
 			return null; // need headers
 		}
-		if (i === pos || buffer[i] !== 0x3a) {
-			throw new Error('Invalid packet header');
+		if (buffer[i] !== 0x3a) {
+			throw new ProtocolError('Invalid packet header');
+		}
+		var header = buffer.toString('utf8', pos, i + 1);
+		if (/^\d+:$/.test(header)) {
+			var contentLength = +header.substring(0, header.length - 1);
+			i++;
+			if (i + contentLength > buffer.length) {
+				return null; // need entire packet data
+			}
+			var body = buffer.toString('utf8', i, i + contentLength);
+			try {
+				return {
+					lastPos: i + contentLength,
+					body: body === '' ? undefined : JSON.parse(body)
+				};
+			} catch (e) {
+				return {
+					lastPos: i + contentLength,
+					error: new ProtocolError('Invalid JSON packet: ' + e.message)
+				};
+			}
+		}
+		var match = BulkHeaderPattern.exec(header);
+		if (!match) {
+			throw new ProtocolError('Invalid packet header: ' + header);
 		}
-		var contentLength = +buffer.toString('utf8', pos, i);
+		var length = +match[3];
 		i++;
-		if (i + contentLength > buffer.length) {
+		if (i + length > buffer.length) {
 			return null; // need entire packet data
 		}
-		var body = buffer.toString('utf8', i, i + contentLength);
 		return {
-			lastPos: i + contentLength,
-			body: body === '' ? undefined : JSON.parse(body)
+			lastPos: i + length,
+			bulk: {actor: match[1], type: match[2], data: buffer.slice(i, i + length)}
 		};
 	}
 }
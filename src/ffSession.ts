@@ -4,20 +4,40 @@
 
 "use strict";
 
-import {FirefoxProtocol} from './ffProtocol';
-import {IURLHelper, LocalURLHelper, HttpURLHelper} from './ffUrlHelper';
+import {FirefoxProtocol, ProtocolError, BulkPacket} from './ffProtocol';
+import {IURLHelper, LocalURLHelper, HttpURLHelper, PathMapping, PathMappingURLHelper, webRootMapping, pathToFileUrl} from './ffUrlHelper';
+import {SourceMaps} from './ffSourceMaps';
+import {TabFilter, TabInfo, createTabFilter, describeTabFilter} from './ffTabFilter';
+import {formatGrip, gripToText, formatMessage, formatTable} from './ffGrip';
+import {createSkipFilesMatcher} from './ffSkipFiles';
+import {TraceRecorder, TraceReplayer, readTrace} from './ffTrace';
+import {FileWatcher} from './ffFileWatcher';
+import {Profile, prepareProfile, removeProfile} from './ffProfile';
 
 import {spawn, ChildProcess} from 'child_process';
 import * as path from 'path';
-import * as fs from 'fs';
 
 const DefaultPort: number = 9223;
+const DefaultConnectTimeout: number = 10000;
+// milliseconds to wait for the answer to a request
+const DefaultRequestTimeout: number = 10000;
+const ConnectRetryInitialDelay: number = 100;
+const ConnectRetryMaxDelay: number = 1000;
+const TabPollInterval: number = 500;
+// milliseconds to wait for the killed Firefox to exit before its profile is removed
+const ProcessExitTimeout: number = 2000;
 const EnvironmentVariablesPrefix = 'env!';
+const LongStringVariablesPrefix = 'longString!';
+export const MainThreadId: number = 1;
+// nsIWorkerDebugger.TYPE_DEDICATED
+const DedicatedWorkerType: number = 0;
 
 export class ActorError extends Error {
 	public body;
 	public constructor(message, body) {
 		super(message);
+		// Error does not set the message of subclasses compiled to ES5
+		this.message = message;
 		this.body = body;
 	}
 }
@@ -27,6 +47,39 @@ export interface ResultVariable {
 	id?: string;
 }
 
+export interface ExceptionDetails {
+	className: string;
+	message: string;
+	stack?: string;
+}
+
+export interface StackFrameInfo {
+	name: string;
+	// the URL of the script, null for scripts without URL (e.g. eval'd code)
+	source: string;
+	sourceActor: string;
+	line: number;
+	column: number;
+	blackboxed: boolean;
+}
+
+export interface ConsoleOutput {
+	category: string;
+	text: string;
+	group?: string;
+	url?: string;
+	line?: number;
+	column?: number;
+	// the arguments of the call if some of them are objects
+	args?: ResultVariable[];
+}
+
+export interface BreakpointLocation {
+	line: number;
+	column?: number;
+	condition?: string;
+}
+
 class PromiseCapability<T> {
 	public promise: Promise<T>;
 	public resolve: (T) => void;
@@ -41,19 +94,53 @@ class PromiseCapability<T> {
 
 class FirefoxProtocolImpl extends FirefoxProtocol {
 	private _session: FirefoxSession;
+	private _rootActor: RootActor;
+	public tabActor: TabActor;
+	public consoleActor: ConsoleActor;
 	public contextActor: ContextActor;
 	public urlHelper: IURLHelper;
+	public sourceMaps: SourceMaps;
 	public logEnabled: boolean;
+	public requestTimeout: number;
+	// scripts are blackboxed if their URL or local path matches
+	public isSkipped: (pathOrUrl: string) => boolean;
 
 	private _map: Map<string, Actor>;
-
-	public constructor(program: string, urlHelper: IURLHelper, session: FirefoxSession) {
+	// maps from the name of an actor registered by executeOnce to the number of its running actions
+	private _actorUses: any;
+	// maps from thread id to ContextActor of the page or a worker
+	private _threads: any;
+	private _nextThreadId: number;
+
+	public constructor(tabFilter: (tab: TabInfo) => boolean, urlHelper: IURLHelper, sourceMaps: SourceMaps,
+										 session: FirefoxSession) {
 		super();
 		this._session = session;
 		this.urlHelper = urlHelper;
+		this.sourceMaps = sourceMaps;
 		this._map = Object.create(null);
+		this._actorUses = Object.create(null);
+		this._threads = Object.create(null);
+		this._nextThreadId = MainThreadId;
 		this.logEnabled = false;
-		this.addActor(new RootActor('root', this, program));
+		this.requestTimeout = DefaultRequestTimeout;
+		this.isSkipped = createSkipFilesMatcher([]);
+		this._rootActor = new RootActor('root', this, tabFilter);
+		this.addActor(this._rootActor);
+	}
+
+	/**
+	 * Resolved when the root actor greets us, i.e. the debugger server is ready.
+	 */
+	public get ready(): Promise<any> {
+		return this._rootActor.ready;
+	}
+
+	/**
+	 * Resolved when a tab matching the filter is found.
+	 */
+	public get tabSelected(): Promise<void> {
+		return this._rootActor.tabSelected;
 	}
 
 	protected onExecuteCommand(body: any): void {
@@ -67,6 +154,29 @@ class FirefoxProtocolImpl extends FirefoxProtocol {
 		this.log('Missed message: ' + JSON.stringify(body));
 	}
 
+	protected onBulkPacket(packet: BulkPacket): void {
+		// none of the actors we use sends bulk data
+		this.log(`Ignored bulk packet ${packet.type} (${packet.data.length} bytes) from ${packet.actor}`);
+	}
+
+	protected onProtocolError(e: ProtocolError): void {
+		this._session._onOutput('Firefox debugger protocol error: ' + e.message, 'stderr');
+	}
+
+	/**
+	 * A lost connection ends the debug session.
+	 */
+	protected onDisconnect(error?: Error): void {
+		// the requests will not be answered anymore
+		Object.keys(this._map).forEach((name) => {
+			this._map[name].cancelRequests(new Error('the connection to Firefox is closed'));
+		});
+		this._rootActor.onDisconnect(error || new Error('disconnected'));
+		if (error) {
+			this.notifySession('disconnected', {message: error.message});
+		}
+	}
+
 	public addActor(actor: Actor): void  {
 		this._map[actor.name] = actor;
 	}
@@ -75,6 +185,55 @@ class FirefoxProtocolImpl extends FirefoxProtocol {
 		delete this._map[actor.name];
 	}
 
+	/**
+	 * Registers the actor for an action, or returns the object registered for a running
+	 * action of the same actor, its answers would not reach the other object.
+	 */
+	public useActor<T extends Actor>(actor: T): T {
+		if (this._actorUses[actor.name]) {
+			this._actorUses[actor.name]++;
+			return <T>this._map[actor.name];
+		}
+		this._actorUses[actor.name] = 1;
+		this.addActor(actor);
+		return actor;
+	}
+
+	// unregisters the actor once its last action has finished
+	public releaseActor(actor: Actor): void {
+		if (--this._actorUses[actor.name] === 0) {
+			delete this._actorUses[actor.name];
+			this.removeActor(actor);
+		}
+	}
+
+	/**
+	 * Attaches to the thread actor and assigns it a thread id,
+	 * the first thread is the page's one.
+	 */
+	public addThread(threadActor: string, name: string): ContextActor {
+		var threadId = this._nextThreadId++;
+		var contextActor = new ContextActor(threadActor, this, threadId);
+		this._threads[threadId] = contextActor;
+		this.addActor(contextActor);
+		this.notifySession('thread', {reason: 'started', threadId: threadId, name: name});
+		return contextActor;
+	}
+
+	public removeThread(contextActor: ContextActor): void {
+		delete this._threads[contextActor.threadId];
+		this.removeActor(contextActor);
+		this.notifySession('thread', {reason: 'exited', threadId: contextActor.threadId});
+	}
+
+	public getThread(threadId: number): ContextActor {
+		var contextActor = this._threads[threadId];
+		if (!contextActor) {
+			throw new Error('unknown thread ' + threadId);
+		}
+		return contextActor;
+	}
+
 	public relayResponse(body: any): void  {
 		this.sendResponse(body);
 	}
@@ -86,10 +245,6 @@ class FirefoxProtocolImpl extends FirefoxProtocol {
 		this._session._onOutput(s);
 	}
 
-	public print(s: string, category: string): void {
-		this._session._onOutput(s, category);
-	}
-
 	public notifySession(topic: string, args: any): void {
 		this._session._onNotification(topic, args);
 	}
@@ -97,9 +252,18 @@ class FirefoxProtocolImpl extends FirefoxProtocol {
 
 class ActorRequest {
 	private _capability: PromiseCapability<any>;
+	private _timer: NodeJS.Timer;
 
-	public constructor(public body: any) {
+	public constructor(public body: any, private _timeout: number, private _onTimeout: () => void) {
 		this._capability = new PromiseCapability<any>();
+		this._timer = null;
+	}
+
+	/**
+	 * Starts waiting for the answer, queued requests do not time out.
+	 */
+	public sent(): void {
+		this._timer = setTimeout(this._onTimeout, this._timeout);
 	}
 
 	public get promise(): Promise<any> {
@@ -107,35 +271,58 @@ class ActorRequest {
 	}
 
 	public respond(response: any): void {
+		clearTimeout(this._timer);
 		this._capability.resolve(response);
 	}
 
 	public fail(response: any): void {
-		this._capability.reject(new ActorError('Actor error', response));
+		clearTimeout(this._timer);
+		var message = response.message ? `${response.error}: ${response.message}` : response.error;
+		this._capability.reject(new ActorError(message, response));
+	}
+
+	/**
+	 * Fails the request before it is answered, e.g. it timed out or was cancelled.
+	 */
+	public abandon(error: Error): void {
+		clearTimeout(this._timer);
+		this._capability.reject(error);
 	}
 }
 
 class Actor {
 	private _processing: ActorRequest;
 	private _queue: Array<ActorRequest>;
+	// the number of answers to abandoned requests which are still to come, the actor
+	// answers its requests in order so they precede the answer to the processed request
+	private _lateAnswers: number;
+	// the last answer dropped while the processed request waits, it is the request's own
+	// answer if the abandoned request is never answered
+	private _droppedAnswer: any;
 
 	protected notImplemented: (any)=>void;
 
 	public constructor(public name: string, public protocol: FirefoxProtocolImpl) {
 		this._processing = null;
 		this._queue = [];
+		this._lateAnswers = 0;
+		this._droppedAnswer = null;
 		this.notImplemented = (body: any) => {
 			this.log('NI: ' + JSON.stringify(body));
 		};
 	}
 
-	public executeOnce<T>(action: ()=>Promise<T>): Promise<T> {
-		this.protocol.addActor(this);
-		return action().then((result: T) => {
-			this.protocol.removeActor(this);
+	/**
+	 * Registers the actor while the action runs, the action gets the registered object
+	 * which queues the requests of all running actions of the actor.
+	 */
+	public executeOnce<T>(action: (actor: this)=>Promise<T>): Promise<T> {
+		var actor = this.protocol.useActor(this);
+		return action(actor).then((result: T) => {
+			this.protocol.releaseActor(actor);
 			return result;
 		}, (reason) => {
-			this.protocol.removeActor(this);
+			this.protocol.releaseActor(actor);
 			throw reason;
 		});
 	}
@@ -151,20 +338,54 @@ class Actor {
 	}
 
 	private sendNext(): void {
+		this._droppedAnswer = null;
 		if (this._queue.length > 0) {
 			this._processing = this._queue.shift();
+			this._processing.sent();
 			this.protocol.relayResponse(this._processing.body);
 		} else {
 			this._processing = null;
 		}
 	}
 
+	// drops the answer if it belongs to an abandoned request
+	private dropLateAnswer(body: any): boolean {
+		if (this._lateAnswers === 0) {
+			return false;
+		}
+		this._lateAnswers--;
+		if (this._processing) {
+			this._droppedAnswer = body;
+		}
+		this.log('dropped the late answer ' + JSON.stringify(body));
+		return true;
+	}
+
+	private answerProcessing(body: any): void {
+		if (body.error) {
+			this._processing.fail(body);
+		} else {
+			this._processing.respond(body);
+		}
+		this.sendNext();
+	}
+
+	/**
+	 * Set while an answer to a request is to come, other errors answer
+	 * the messages which are not requests.
+	 */
+	protected get awaitingAnswer(): boolean {
+		return this._processing !== null || this._lateAnswers > 0;
+	}
+
 	protected processResponse(body: any): boolean {
+		if (this.dropLateAnswer(body)) {
+			return true;
+		}
 		if (!this._processing) {
 			return false;
 		}
-		this._processing.respond(body);
-		this.sendNext();
+		this.answerProcessing(body);
 		return true;
 	}
 
@@ -173,23 +394,60 @@ class Actor {
 	}
 
 	protected processError(body: any): boolean {
+		if (this.dropLateAnswer(body)) {
+			return true;
+		}
 		if (!this._processing) {
 			return false;
 		}
-		this._processing.fail(body);
-		this.sendNext();
+		this.answerProcessing(body);
 		return true;
 	}
 
+	/**
+	 * Fails the request which was sent already and sends the next one, the answer
+	 * to the failed request is dropped when it arrives.
+	 */
+	private abandonProcessing(error: Error): void {
+		this._processing.abandon(error);
+		this._lateAnswers++;
+		this.sendNext();
+	}
+
+	/**
+	 * Rejects the requests which are not answered yet. The answer to the request
+	 * which was sent already is dropped when it arrives.
+	 */
+	public cancelRequests(error: Error): void {
+		var queue = this._queue;
+		this._queue = [];
+		if (this._processing) {
+			this.abandonProcessing(error);
+		}
+		queue.forEach((request) => request.abandon(error));
+	}
+
 	public sendRequest(body: any): Promise<any>  {
 		if (body.to === undefined) {
 			body.to = this.name;
 		}
-		var request = new ActorRequest(body);
+		var timeout = this.protocol.requestTimeout;
+		var request = new ActorRequest(body, timeout, () => {
+			// only the request which was sent is waiting for its answer
+			if (this._droppedAnswer) {
+				// the abandoned request was not answered, the dropped answer is this request's
+				this.log('took back the dropped answer ' + JSON.stringify(this._droppedAnswer));
+				this.answerProcessing(this._droppedAnswer);
+				return;
+			}
+			this.abandonProcessing(new Error(
+				`Firefox did not answer the '${body.type}' request to ${this.name} within ${timeout} ms`));
+		});
 		if (this._processing) {
 			this._queue.push(request);
 		} else {
 			this._processing = request;
+			request.sent();
 			this.protocol.relayResponse(request.body);
 		}
 		return request.promise.catch((e) => {
@@ -219,37 +477,82 @@ enum SessionState {
 
 class RootActor extends Actor {
 	private _tabState: SessionState;
-	private _program: string;
-	private _tabInfo: {actor: string; consoleActor: string};
+	private _tabFilter: (tab: TabInfo) => boolean;
+	private _tabInfo: {actor: string; consoleActor: string; url: string};
+	private _readyCapability: PromiseCapability<any>;
+	private _tabCapability: PromiseCapability<void>;
 
-	public constructor(name: string, protocol: FirefoxProtocolImpl, program: string) {
+	public constructor(name: string, protocol: FirefoxProtocolImpl, tabFilter: (tab: TabInfo) => boolean) {
 		super(name, protocol);
 		this._tabState = SessionState.INITIALIZATION;
-		this._program = program;
+		this._tabFilter = tabFilter;
+		this._readyCapability = new PromiseCapability<any>();
+		this._tabCapability = new PromiseCapability<void>();
+	}
+
+	public get ready(): Promise<any> {
+		return this._readyCapability.promise;
+	}
+
+	public get tabSelected(): Promise<void> {
+		return this._tabCapability.promise;
+	}
+
+	public onDisconnect(e: Error): void {
+		// the tab is waited for only after the greeting
+		if (this._tabState === SessionState.INITIALIZATION) {
+			this._readyCapability.reject(e);
+		} else if (this._tabState === SessionState.SELECT_TAB) {
+			this._tabCapability.reject(e);
+		}
 	}
 
 	private init(body: any): void {
 		this.log('Initialized');
+		this._readyCapability.resolve(body);
 		this._tabState = SessionState.SELECT_TAB;
-		this.sendRequest({type: 'listTabs'}).then((tabs) => {
-			this.selectTab(tabs);
-			this._tabState = SessionState.READY;
+		this.listTabs();
+	}
+
+	/**
+	 * Polls the tab list until the tab shows up, e.g. while the browser
+	 * is still starting or the page is being redirected.
+	 */
+	private listTabs(): void {
+		if (!this.protocol.connected) {
+			return;
+		}
+		this.sendRequest({type: 'listTabs'}).then((body) => {
+			if (this.selectTab(body)) {
+				this._tabState = SessionState.READY;
+				this._tabCapability.resolve(undefined);
+				return;
+			}
+			delay(TabPollInterval).then(() => this.listTabs());
+		}, (e) => {
+			this._tabCapability.reject(e);
 		});
 	}
 
-	private selectTab(body: any): void {
-		var tabs: Array<any> = body.tabs;
-		tabs.forEach((tab) => {
-			if (tab.url === this._program) {
-				this._tabInfo = tab;
+	private selectTab(body: any): boolean {
+		var tabs: Array<any> = body.tabs || [];
+		tabs.some((tab) => {
+			if (!this._tabFilter(tab)) {
+				return false;
 			}
+			this._tabInfo = tab;
+			return true;
 		});
 		if (!this._tabInfo) {
-			throw new Error('tab not found');
+			return false;
 		}
-		this.log('Tab ' + this._program +  ' found.');
-		this.protocol.addActor(new ConsoleActor(this._tabInfo.consoleActor, this.protocol));
-		this.protocol.addActor(new TabActor(this._tabInfo.actor, this.protocol));
+		this.log('Tab ' + this._tabInfo.url +  ' found.');
+		var tabActor = new TabActor(this._tabInfo.actor, this.protocol);
+		this.protocol.tabActor = tabActor;
+		this.protocol.consoleActor = new ConsoleActor(this._tabInfo.consoleActor, this.protocol);
+		this.protocol.addActor(this.protocol.consoleActor);
+		this.protocol.addActor(tabActor);
+		return true;
 	}
 
 	public processCommand(body: any): boolean {
@@ -262,112 +565,367 @@ class RootActor extends Actor {
 }
 
 class ConsoleActor extends Actor {
+	// resolved when the previous message is printed, keeps the messages in order
+	private _printed: Promise<void>;
+
 	public constructor(name: string, protocol: FirefoxProtocolImpl) {
 		super(name, protocol);
 
+		this._printed = Promise.resolve(undefined);
+
 		var listenFor: string[] = ['PageError', 'ConsoleAPI'];
 		this.sendRequest({type: 'startListeners', listeners: listenFor}).then(() => {
 			this.log('listeners');
+		}, (e) => {
+			this.log('console messages are not available: ' + e.message);
 		});
-		this.sendRequest({type: 'getCachedMessages', messageTypes: listenFor}).then(function (body) {
+		this.sendRequest({type: 'getCachedMessages', messageTypes: listenFor}).then((body) => {
 			this.log('messages');
 			var messages: Array<any> = body.messages;
 			messages.forEach((message) => this.printMessage(message, message._type));
+		}, (e) => {
+			this.log('cached console messages are not available: ' + e.message);
 		});
 	}
 
 	public processNotification(body: any) {
 		switch (body.type) {
 			case 'consoleAPICall':
-				this.printMessage(body.message, '_ConsoleAPI');
+				this.printMessage(body.message, 'ConsoleAPI');
 				return true;
-			case 'pageErrorCall':
-				this.printMessage(body.message, '_PageError');
+			case 'pageError':
+				this.printMessage(body.pageError, 'PageError');
 				return true;
 		}
 		return false;
 	}
 
+	/**
+	 * Notifies the session of a console message with its text, the location it
+	 * was logged from and the arguments which can be expanded.
+	 */
 	private printMessage(message: any, type: string): void {
-		var category = message.level === 'error' ? 'stderr' :
-			message.level === 'warning' ? 'console' : 'stdout';
-		this.protocol.print(message.arguments.join(','), category);
+		var values: Array<any> = type === 'PageError' ? [message.errorMessage] : (message.arguments || []);
+		// long strings are replaced by their full text
+		var resolved = Promise.all(values.map((value) => {
+			var isLongString = typeof value === 'object' && value !== null && value.type === 'longString';
+			return isLongString ? getFullText(this.protocol, value) : value;
+		}));
+		// the failure is handled when the previous messages are printed
+		resolved.catch(() => undefined);
+		this._printed = this._printed.then(() => resolved).then((values) => {
+			var output = type === 'PageError' ? this.describePageError(message) : this.describeCall(message, values);
+			if (!output) {
+				return;
+			}
+			var objects = values.filter((value) => typeof value === 'object' && value !== null && value.type === 'object');
+			output.args = objects.length === 0 ? undefined : values.map((value) => {
+				var isObject = typeof value === 'object' && value !== null && value.type === 'object';
+				return {display: formatGrip(value), id: isObject ? value.actor : undefined};
+			});
+			this.protocol.notifySession('console', output);
+		}, (e) => {
+			this.log('message not printed: ' + e.message);
+		});
+	}
+
+	/**
+	 * Evaluates the expression in the page's global scope, the thread may be running.
+	 */
+	public evaluate(expr: string, fullText?: boolean): Promise<ResultVariable> {
+		return this.evaluateJS(expr).then((completion) => {
+			return toResultVariable(this.protocol, completion, fullText);
+		});
+	}
+
+	public setVariable(target: string, value: string): Promise<ResultVariable> {
+		return this.evaluateJS(`${target} = (${value})`).then(toAssignedValue);
+	}
+
+	// resolves to the actor of the object the expression evaluates to, null for other values
+	public evaluateObject(expr: string): Promise<string> {
+		return this.evaluateJS(expr).then(returnedObject);
+	}
+
+	/**
+	 * Assigns the value expression to the property of the object (bound to _self), in the
+	 * frame's scope if a frame actor is given, and resolves to the new value.
+	 */
+	public setProperty(objectActor: string, name: string, value: string, frameActor?: string): Promise<ResultVariable> {
+		return this.evaluateJS(`_self[${JSON.stringify(name)}] = (${value})`,
+			{bindObjectActor: objectActor, frameActor: frameActor}).then(toAssignedValue);
+	}
+
+	/**
+	 * Returns the names completing the identifier before the cursor and the part
+	 * of it which is already typed, in the frame's scope if a frame actor is given.
+	 */
+	public autocomplete(text: string, cursor: number, frameActor?: string):
+			Promise<{matches: string[], matchProp: string}> {
+		return this.sendRequest({type: 'autocomplete', text: text, cursor: cursor, frameActor: frameActor})
+				.then((body) => {
+			return {matches: body.matches || [], matchProp: body.matchProp || ''};
+		});
+	}
+
+	// resolves to the completion value of the evaluation like 'clientEvaluate'
+	private evaluateJS(expr: string, options?: {bindObjectActor: string, frameActor: string}): Promise<any> {
+		var request: any = {type: 'evaluateJS', text: expr};
+		if (options) {
+			request.bindObjectActor = options.bindObjectActor;
+			request.frameActor = options.frameActor;
+		}
+		return this.sendRequest(request).then((body) => {
+			if (body.exception !== undefined && body.exception !== null) {
+				return {throw: body.exception};
+			}
+			return {return: body.result};
+		});
+	}
+
+	private describeCall(message: any, values: Array<any>): ConsoleOutput {
+		var category = message.level === 'error' || message.level === 'assert' ? 'stderr' :
+			message.level === 'warn' || message.level === 'warning' ? 'console' : 'stdout';
+		var output: ConsoleOutput = {
+			category: category,
+			text: formatMessage(values),
+			url: message.filename,
+			line: message.lineNumber,
+			column: message.columnNumber
+		};
+		switch (message.level) {
+			case 'group':
+				output.group = 'start';
+				break;
+			case 'groupCollapsed':
+				output.group = 'startCollapsed';
+				break;
+			case 'groupEnd':
+				output.group = 'end';
+				output.text = '';
+				break;
+			case 'table':
+				output.text = formatTable(values[0]);
+				break;
+			case 'assert':
+				output.text = 'Assertion failed' + (values.length > 0 ? ': ' + output.text : '');
+				break;
+			case 'trace':
+				output.text = 'console.trace()' + this.formatStack(message.stacktrace);
+				break;
+			case 'count':
+				if (!message.counter) {
+					return null;
+				}
+				output.text = `${message.counter.label}: ${message.counter.count}`;
+				break;
+			case 'time':
+				// only console.timeEnd prints the duration
+				return null;
+			case 'timeEnd':
+				if (!message.timer) {
+					return null;
+				}
+				output.text = `${message.timer.name}: ${message.timer.duration}ms`;
+				break;
+		}
+		return output;
+	}
+
+	private describePageError(message: any): ConsoleOutput {
+		return {
+			category: message.warning ? 'console' : 'stderr',
+			text: gripToText(message.errorMessage) + this.formatStack(message.stacktrace),
+			url: message.sourceName,
+			line: message.lineNumber,
+			column: message.columnNumber
+		};
+	}
+
+	private formatStack(stacktrace: Array<any>): string {
+		return (stacktrace || []).map((frame) => {
+			return `\n    at ${frame.functionName || '<anonymous>'} (${frame.filename}:${frame.lineNumber}:${frame.columnNumber})`;
+		}).join('');
 	}
 }
 
 class TabActor extends Actor {
 	private _contextActor: ContextActor;
+	private _detachCapability: PromiseCapability<void>;
+	// maps from worker actor name to WorkerActor
+	private _workers: any;
 
 	public constructor(name: string, protocol: FirefoxProtocolImpl) {
 		super(name, protocol);
 
+		this._detachCapability = null;
+		this._workers = Object.create(null);
+
 		this.sendMessage({type: 'attach'});
 	}
 
+	public detach(): Promise<void> {
+		// the response to 'detach' is the 'detached' notification
+		var capability = new PromiseCapability<void>();
+		this._detachCapability = capability;
+		this.sendMessage({type: 'detach'});
+		// the session is stopped even if Firefox does not answer
+		var timer = setTimeout(() => {
+			this.log('detaching timed out');
+			capability.resolve(undefined);
+		}, this.protocol.requestTimeout);
+		return capability.promise.then(() => {
+			clearTimeout(timer);
+		});
+	}
+
+	/**
+	 * The page is loaded again, 'tabNavigated' notifications follow.
+	 */
+	public reload(): Promise<void> {
+		return this.sendRequest({type: 'reload', options: {force: false}}).then(() => undefined);
+	}
+
+	public navigateTo(url: string): Promise<void> {
+		return this.sendRequest({type: 'navigateTo', url: url}).then(() => undefined);
+	}
+
 	public processNotification(body: any) {
 		switch (body.type) {
+			case 'tabNavigated':
+				if (body.isFrameSwitching) {
+					// the toolbox selected another frame, the page stays the same
+					return true;
+				}
+				if (body.state === 'start' && this._contextActor) {
+					this._contextActor.onNavigated();
+				}
+				this.protocol.notifySession('navigated', {state: body.state, url: body.url, title: body.title});
+				return true;
+			case 'detached':
+				this.protocol.contextActor = null;
+				if (this._detachCapability) {
+					this._detachCapability.resolve(undefined);
+				}
+				return true;
 			case 'tabAttached':
 				var threadActor = body.threadActor;
-				this._contextActor = new ContextActor(threadActor, this.protocol);
+				this._contextActor = this.protocol.addThread(threadActor, 'main thread');
 				this.protocol.contextActor = this._contextActor;
-				this.protocol.addActor(this._contextActor);
 
+				// the thread also debugs the scripts of the tab's child frames
 				this.log('context is defined.');
+				this.listWorkers();
 				return true;
-			case 'frameUpdate':
-				// TODO
+			case 'workerListChanged':
+				// we are notified only once per 'listWorkers' request
+				this.listWorkers();
 				return true;
 		}
 		return false;
 	}
+
+	private listWorkers(): void {
+		this.sendRequest({type: 'listWorkers'}).then((body) => {
+			var workers: Array<any> = body.workers.filter((worker) => {
+				return worker.type === undefined || worker.type === DedicatedWorkerType;
+			});
+			var running = Object.create(null);
+			workers.forEach((worker) => {
+				running[worker.actor] = true;
+				if (this._workers[worker.actor]) {
+					return;
+				}
+				var workerActor = new WorkerActor(worker.actor, this.protocol, worker.url);
+				this._workers[worker.actor] = workerActor;
+				this.protocol.addActor(workerActor);
+			});
+			Object.keys(this._workers).forEach((name) => {
+				if (!running[name]) {
+					this._workers[name].terminate();
+					delete this._workers[name];
+				}
+			});
+		}, (e) => {
+			this.log('workers are not available: ' + e.message);
+		});
+	}
 }
 
-class ContextActor extends Actor {
-	private _evaluateCapabilty: PromiseCapability<ResultVariable>;
+class WorkerActor extends Actor {
+	private _contextActor: ContextActor;
 
-	public constructor(name: string, protocol: FirefoxProtocolImpl) {
+	public constructor(name: string, protocol: FirefoxProtocolImpl, public url: string) {
 		super(name, protocol);
 
-		this._evaluateCapabilty = null;
+		this._contextActor = null;
 
+		// the responses to 'attach' and 'connect' are the 'attached' and 'connected' notifications
 		this.sendMessage({type: 'attach'});
-		this.sendRequest({type: 'sources'}).then(function () {
-			// we got all sources
-		});
 	}
 
-	private formatGrip(value: any): string {
-		if (typeof value !== 'object' || value === null) {
-			return JSON.stringify(value);
+	public processNotification(body: any) {
+		switch (body.type) {
+			case 'attached':
+				this.sendMessage({type: 'connect', options: {}});
+				return true;
+			case 'connected':
+				this._contextActor = this.protocol.addThread(body.threadActor, 'Worker ' + this.url);
+				return true;
+			case 'close':
+				this.terminate();
+				return true;
 		}
-		switch (value.type) {
-			case 'null':
-			case 'undefined':
-			case 'Infinity':
-			case '-Infinity':
-			case 'NaN':
-			case '-0':
-				return value.type;
-			case 'longString':
-				return value.initial; // TODO
+		return false;
+	}
+
+	public terminate(): void {
+		if (this._contextActor) {
+			this.protocol.removeThread(this._contextActor);
+			this._contextActor = null;
 		}
-		return `[object ${value.class}]`;
+		this.protocol.removeActor(this);
 	}
+}
 
-	private getActor(value: any): string {
-		return typeof value === 'object' && value !== null && value.type === 'object' ?
-			value.actor : undefined;
+class ContextActor extends Actor {
+	// set while Firefox evaluates, it answers 'clientEvaluate' with notifications
+	private _evaluateCapabilty: PromiseCapability<any>;
+	// the evaluations run one after the other
+	private _lastEvaluation: Promise<void>;
+	private _sourcesLoaded: Promise<any>;
+	// maps from the name of a blackboxed source actor to true
+	private _blackboxed: any;
+
+	public constructor(name: string, protocol: FirefoxProtocolImpl, public threadId: number) {
+		super(name, protocol);
+
+		this._evaluateCapabilty = null;
+		this._lastEvaluation = Promise.resolve<void>();
+		this._blackboxed = Object.create(null);
+
+		this.sendMessage({type: 'attach'});
+		this._sourcesLoaded = this.sendRequest({type: 'sources'}).then((body) => {
+			// scripts loaded before we attached are not announced with 'newSource'
+			var sources: Array<any> = body.sources || [];
+			return Promise.all(sources.map((source) => this.onNewSource(source)));
+		}, (e) => {
+			this.log('sources are not available: ' + e.message);
+		});
 	}
 
-	private formatReturnValue(value: any): ResultVariable  {
-		if (value.terminated) {
-			return {display: '(terminated)'};
-		}
-		if (value.throw) {
-			var s = this.formatGrip(value.throw);
-			return {display: `(error: ${s})`, id: this.getActor(value.throw)};
+	private describeException(value: any): ExceptionDetails {
+		var preview = typeof value === 'object' && value !== null && value.preview;
+		if (preview && preview.kind === 'Error') {
+			return {
+				className: preview.name || value.class,
+				message: gripToText(preview.message),
+				stack: gripToText(preview.stack)
+			};
 		}
-		return {display: this.formatGrip(value.return), id: this.getActor(value.return)};
+		var className = typeof value !== 'object' || value === null ? typeof value :
+			value.type === 'object' ? value.class : value.type;
+		return {className: className, message: gripToText(value)};
 	}
 
 	public processNotification(body: any): boolean {
@@ -375,12 +933,30 @@ class ContextActor extends Actor {
 			case 'paused':
 				var reason = body.why && body.why.type;
 				if (reason === 'clientEvaluated') {
-					this._evaluateCapabilty.resolve(
-						this.formatReturnValue(body.why.frameFinished));
+					if (this._evaluateCapabilty) {
+						this._evaluateCapabilty.resolve(body.why.frameFinished);
+					} else {
+						this.log('dropped the late evaluation ' + JSON.stringify(body.why.frameFinished));
+					}
 					return true;
 				}
 				this.log('paused: ' + reason);
-				this.protocol.notifySession('paused', {reason: reason});
+				var where = body.frame && body.frame.where;
+				var args = {
+					threadId: this.threadId,
+					reason: reason,
+					actors: (body.why && body.why.actors) || [],
+					exception: reason === 'exception' ? this.describeException(body.why.exception) : undefined,
+					location: where && {url: where.source.url, line: where.line, column: where.column}
+				};
+				if (reason === 'attached') {
+					// let the session set breakpoints in the known scripts before it resumes
+					this._sourcesLoaded.then(() => {
+						this.protocol.notifySession('paused', args);
+					});
+					return true;
+				}
+				this.protocol.notifySession('paused', args);
 				return true;
 			case 'resumed':
 				this.log('resumed');
@@ -389,56 +965,137 @@ class ContextActor extends Actor {
 				// TODO shall we do something here?
 				return true;
 			case 'newSource':
-				var url = body.source.url;
-				if (!url) {
-					return true; // ignoring scripts without url
-				}
-				var path = this.protocol.urlHelper.convertToLocal(url);
-				if (!path) {
-					return true; // ignoring non-project scripts
-				}
-				this.protocol.notifySession('source', {
-					path: path, url: url, id: body.source.actor})
+				// scripts loaded while the sources are listed are announced after these
+				this._sourcesLoaded.then(() => this.onNewSource(body.source));
 				return true;
 		}
 		return false;
 	}
 
+	/**
+	 * Announces the script, scripts without URL (e.g. eval'd code) or outside
+	 * of the project have no path.
+	 */
+	private onNewSource(source: any): Promise<void> {
+		var url = source.url;
+		var sourceMapLoaded = !url || !source.sourceMapURL ? Promise.resolve(undefined) :
+			this.loadSourceMap(url, source.sourceMapURL, source.actor);
+		var path = url ? this.protocol.urlHelper.convertToLocal(url) : null;
+		if (this.protocol.isSkipped(url) || this.protocol.isSkipped(path)) {
+			this.setBlackboxed(source.actor, true).catch((e) => {
+				this.log('source ' + url + ' was not blackboxed: ' + e.message);
+			});
+		}
+		this.protocol.notifySession('source', {
+			threadId: this.threadId, path: path, url: url, id: source.actor,
+			introductionType: source.introductionType});
+		return sourceMapLoaded;
+	}
+
+	/**
+	 * Stepping does not stop in blackboxed sources, their breakpoints
+	 * and debugger statements are ignored.
+	 */
+	public setBlackboxed(sourceId: string, blackboxed: boolean): Promise<void> {
+		var source = new SourceActor(sourceId, this.protocol);
+		return source.executeOnce((source) => source.setBlackboxed(blackboxed)).then(() => {
+			if (blackboxed) {
+				this._blackboxed[sourceId] = true;
+			} else {
+				delete this._blackboxed[sourceId];
+			}
+		});
+	}
+
+	public isBlackboxed(sourceId: string): boolean {
+		return !!this._blackboxed[sourceId];
+	}
+
+	public getSourceText(sourceId: string): Promise<string> {
+		var source = new SourceActor(sourceId, this.protocol);
+		return source.executeOnce((source) => source.getText());
+	}
+
+	private loadSourceMap(url: string, sourceMapURL: string, actor: string): Promise<void> {
+		return this.protocol.sourceMaps.load(url, sourceMapURL).then((paths) => {
+			// breakpoints in the original sources are set in the generated script
+			paths.forEach((path) => {
+				this.protocol.notifySession('source', {threadId: this.threadId, path: path, url: url, id: actor});
+			});
+		}, (e) => {
+			this.log('source map of ' + url + ' was not loaded: ' + e.message);
+		});
+	}
+
 	public processError(body: any): boolean {
 		switch (body.error) {
 			case 'unknownFrame':
 			case 'notDebuggee':
 			case 'wrongState':
-				if (this._evaluateCapabilty) {
+				if (this._evaluateCapabilty && !this.awaitingAnswer) {
 					this._evaluateCapabilty.reject(new Error(body.message));
 					return true;
 				}
-				return false;
+				break;
 		}
 		return super.processError(body);
 	}
 
-	public resume(reason?: string): void {
-		if (!reason) {
-			this.sendMessage({type: 'resume'});
-			return;
+	public cancelRequests(error: Error): void {
+		super.cancelRequests(error);
+		if (this._evaluateCapabilty) {
+			this._evaluateCapabilty.reject(error);
 		}
-		var resumeLimit = {
-			type: reason
-		};
-		this.sendMessage({type: 'resume', resumeLimit: resumeLimit});
+	}
+
+	/**
+	 * The scripts of the previous page are gone, Firefox resumes the thread if it is paused.
+	 */
+	public onNavigated(): void {
+		this.cancelRequests(new Error('the page navigated'));
+		this._blackboxed = Object.create(null);
+	}
+
+	/**
+	 * The frames and evaluations of the paused thread are cancelled.
+	 */
+	public resume(reason?: string, pauseOnExceptions?: {pause: boolean, ignoreCaught: boolean}): void {
+		this.cancelRequests(new Error('the thread was resumed'));
+		var request: any = {type: 'resume'};
+		if (reason) {
+			request.resumeLimit = {
+				type: reason
+			};
+		}
+		// the thread actor takes the exception settings with every resume
+		if (pauseOnExceptions) {
+			request.pauseOnExceptions = pauseOnExceptions.pause;
+			request.ignoreCaughtExceptions = pauseOnExceptions.ignoreCaught;
+		}
+		this.sendMessage(request);
+	}
+
+	/**
+	 * The thread answers with a 'paused' notification.
+	 */
+	public interrupt(): void {
+		this.sendMessage({type: 'interrupt'});
 	}
 
 	public getStackTrace(startFrame?: number, maxLevels?: number):
-			Promise< Array<{name: string, source: string, line: number}> > {
+			Promise<StackFrameInfo[]> {
 		return this.sendRequest({type: 'frames', startFrame: startFrame, count: maxLevels}).then((body) => {
 			var frames = body.frames;
 			return frames.map((f, index: number) => {
 				return {
 					depth: index,
-					name: f.callee.name,
+					// global and eval frames have no callee
+					name: f.callee ? f.callee.name : `(${f.type})`,
 					source: f.where.source.url,
-					line: f.where.line
+					sourceActor: f.where.source.actor,
+					line: f.where.line,
+					column: f.where.column || 0,
+					blackboxed: this.isBlackboxed(f.where.source.actor)
 				};
 			});
 		});
@@ -467,7 +1124,7 @@ class ContextActor extends Actor {
 		if (!('value' in desc)) {
 			return {display: '(property)'};
 		}
-		return {display: this.formatGrip(desc.value), id: this.getActor(desc.value)};
+		return {display: formatGrip(desc.value), id: getVariableId(desc.value)};
 	}
 
 	private translateProperties(item, result: Array<{name: string, value: ResultVariable}>): void {
@@ -477,9 +1134,15 @@ class ContextActor extends Actor {
 	}
 
 	public getVariables(refId: string): Promise< Array<{name: string, value: ResultVariable}> > {
-		if (refId.indexOf(EnvironmentVariablesPrefix) === 0) {
+		if (refId.indexOf(LongStringVariablesPrefix) === 0) {
+			var actor = refId.substring(LongStringVariablesPrefix.length);
+			// without the length the rest of the string is fetched
+			return getFullText(this.protocol, {type: 'longString', actor: actor}).then((text) => {
+				return [{name: 'value', value: {display: JSON.stringify(text)}}];
+			});
+		} else if (refId.indexOf(EnvironmentVariablesPrefix) === 0) {
 			var environment = new EnvironmentActor(refId.substring(EnvironmentVariablesPrefix.length), this.protocol);
-			return environment.executeOnce(() => environment.getBindings()).then((body) => {
+			return environment.executeOnce((environment) => environment.getBindings()).then((body) => {
 				var result = new Array<{name: string, value: ResultVariable}>();
 				if (body.arguments) {
 					body.arguments.forEach((item) => {
@@ -493,7 +1156,7 @@ class ContextActor extends Actor {
 			});
 		} else {
 			var objectGrip = new GripActor(refId, this.protocol);
-			return objectGrip.executeOnce(() => objectGrip.getPrototypeAndProperties()).then((body) => {
+			return objectGrip.executeOnce((objectGrip) => objectGrip.getPrototypeAndProperties()).then((body) => {
 				var result = new Array<{name: string, value: ResultVariable}>();
 				this.translateProperties(body.ownProperties, result);
 				if (body.prototype) {
@@ -504,24 +1167,100 @@ class ContextActor extends Actor {
 		}
 	}
 
-	public evaluate(expr: string, frame?: number): Promise<ResultVariable> {
-		if (frame === undefined) frame = 0; // FIXME if undefined, it must be global
-		this._evaluateCapabilty = new PromiseCapability<ResultVariable>();
-		this.sendRequest({type: 'frames', startFrame: frame, count: 1}).then((body) => {
-			return this.sendMessage({
+	/**
+	 * Resolves to the names of the variables of an environment or the properties of an
+	 * object and its prototypes (refId is like for getVariables) whose values are functions.
+	 */
+	public getFunctionNames(refId: string): Promise<string[]> {
+		var isFunction = (desc) => !!desc.value && desc.value.class === 'Function';
+		if (refId.indexOf(EnvironmentVariablesPrefix) === 0) {
+			var environment = new EnvironmentActor(refId.substring(EnvironmentVariablesPrefix.length), this.protocol);
+			return environment.executeOnce((environment) => environment.getBindings()).then((body) => {
+				var items = (body.arguments || []).concat([body.variables || {}]);
+				return items.reduce((names: string[], item) => {
+					return names.concat(Object.keys(item).filter((name) => isFunction(item[name])));
+				}, []);
+			});
+		}
+		var objectGrip = new GripActor(refId, this.protocol);
+		return objectGrip.executeOnce((objectGrip) => objectGrip.getPrototypeAndProperties()).then((body) => {
+			var own = Object.keys(body.ownProperties);
+			var names = own.filter((name) => isFunction(body.ownProperties[name]));
+			if (!body.prototype || body.prototype.type !== 'object') {
+				return names;
+			}
+			// methods are usually inherited, unless an own property shadows them
+			return this.getFunctionNames(body.prototype.actor).then((inherited) => {
+				return names.concat(inherited.filter((name) => own.indexOf(name) < 0));
+			});
+		});
+	}
+
+	/**
+	 * With fullText the result is the complete text of the value (e.g. for copying it),
+	 * long strings are fetched from the server.
+	 */
+	public evaluate(expr: string, frame: number, fullText?: boolean): Promise<ResultVariable> {
+		return this.clientEvaluate(expr, frame).then((completion) => {
+			return toResultVariable(this.protocol, completion, fullText);
+		});
+	}
+
+	/**
+	 * Assigns the value expression to the target expression (a variable or a property)
+	 * in the frame and resolves to the new value, exceptions are rejected.
+	 */
+	public setVariable(target: string, value: string, frame: number): Promise<ResultVariable> {
+		return this.clientEvaluate(`${target} = (${value})`, frame).then(toAssignedValue);
+	}
+
+	// resolves to the actor of the object the expression evaluates to in the frame, null for other values
+	public evaluateObject(expr: string, frame: number): Promise<string> {
+		return this.clientEvaluate(expr, frame).then(returnedObject);
+	}
+
+	// resolves to the completion value of the evaluation
+	private clientEvaluate(expr: string, frame: number): Promise<any> {
+		var evaluation = this._lastEvaluation.then(() => this.getFrameActor(frame)).then((frameActor) => {
+			var capability = new PromiseCapability<any>();
+			this._evaluateCapabilty = capability;
+			this.sendMessage({
 				"type": "clientEvaluate",
 				"expression": expr,
-				"frame": body.frames[0].actor
+				"frame": frameActor
+			});
+			var timeout = this.protocol.requestTimeout;
+			var timer = setTimeout(() => {
+				capability.reject(new Error(`Firefox did not finish the evaluation within ${timeout} ms`));
+			}, timeout);
+			var settled = () => {
+				clearTimeout(timer);
+				this._evaluateCapabilty = null;
+			};
+			return capability.promise.then((completion) => {
+				settled();
+				return completion;
+			}, (e) => {
+				settled();
+				throw e;
 			});
-		}).catch(this._evaluateCapabilty.reject);
-		return this._evaluateCapabilty.promise;
+		});
+		this._lastEvaluation = evaluation.then(() => undefined, () => undefined);
+		return evaluation;
 	}
 
-	public addBreakpoints(sourceId: string, lines: number[]): Promise< Array<{id: string, line: number}> > {
+	public getFrameActor(frame: number): Promise<string> {
+		return this.sendRequest({type: 'frames', startFrame: frame, count: 1}).then((body) => {
+			return body.frames[0].actor;
+		});
+	}
+
+	public addBreakpoints(sourceId: string, locations: BreakpointLocation[]):
+			Promise< Array<{id: string, line: number, column?: number}> > {
 		var source = new SourceActor(sourceId, this.protocol);
-		return source.executeOnce(() => {
-			var promises = lines.map((line) => {
-				return source.addBreakpoint(line);
+		return source.executeOnce((source) => {
+			var promises = locations.map((location) => {
+				return source.addBreakpoint(location);
 			});
 			return Promise.all(promises);
 		});
@@ -532,7 +1271,7 @@ class ContextActor extends Actor {
 		ids.forEach((id) => {
 			var breakpoint = new Breakpoint(id, this.protocol);
 			promise = promise.then(() => {
-				return breakpoint.executeOnce(() => breakpoint.remove());
+				return breakpoint.executeOnce((breakpoint) => breakpoint.remove());
 			});
 		});
 		return promise;
@@ -559,19 +1298,46 @@ class GripActor extends Actor  {
 	}
 }
 
+class LongStringActor extends Actor {
+	public constructor(name: string, protocol: FirefoxProtocolImpl) {
+		super(name, protocol);
+	}
+
+	public substring(start: number, end: number): Promise<string> {
+		return this.sendRequest({type: 'substring', start: start, end: end}).then(body => body.substring);
+	}
+}
+
 class SourceActor extends Actor {
 	public constructor(name: string, protocol: FirefoxProtocolImpl) {
 		super(name, protocol);
 	}
 
-	public addBreakpoint(line: number): Promise<{id: string, line: number}> {
-		return this.sendRequest({type: 'setBreakpoint', location: {line: line}}).then((body) => {
-			var actualLine = body.actualLocation ? body.actualLocation.line : line;
+	public setBlackboxed(blackboxed: boolean): Promise<any> {
+		return this.sendRequest({type: blackboxed ? 'blackbox' : 'unblackbox'});
+	}
+
+	public getText(): Promise<string> {
+		return this.sendRequest({type: 'source'}).then((body) => {
+			return getFullText(this.protocol, body.source);
+		});
+	}
+
+	public addBreakpoint(location: BreakpointLocation): Promise<{id: string, line: number, column?: number}> {
+		var request: any = {type: 'setBreakpoint', location: {line: location.line}};
+		if (location.column !== undefined) {
+			request.location.column = location.column;
+		}
+		if (location.condition) {
+			request.condition = location.condition;
+		}
+		return this.sendRequest(request).then((body) => {
+			var actualLocation = body.actualLocation || location;
 			var verified = !body.isPending;
 			var actor = body.actor;
-			return {id: actor, line: actualLine, verified: verified};
+			return {id: actor, line: actualLocation.line, column: actualLocation.column, verified: verified};
 		}, (reason) => {
-			return {id: undefined, line: line, verified: false};
+			return {id: undefined, line: location.line, column: location.column, verified: false};
 		});
 	}
 }
@@ -586,99 +1352,540 @@ class Breakpoint extends Actor {
 	}
 }
 
+function delay(ms: number): Promise<void> {
+	return new Promise<void>((resolve) => {
+		setTimeout(resolve, ms);
+	});
+}
+
+/**
+ * Returns the text of a value without quotes, the full text of long strings
+ * is fetched from their actor.
+ */
+function getFullText(protocol: FirefoxProtocolImpl, value: any): Promise<string> {
+	if (typeof value !== 'object' || value === null || value.type !== 'longString') {
+		return Promise.resolve(gripToText(value));
+	}
+	var actor = new LongStringActor(value.actor, protocol);
+	return actor.executeOnce((actor) => actor.substring(0, value.length));
+}
+
+/**
+ * Returns the id for the variables of an object grip, long strings are
+ * expanded to their full text.
+ */
+function getVariableId(value: any): string {
+	if (typeof value !== 'object' || value === null) {
+		return undefined;
+	}
+	if (value.type === 'longString') {
+		return LongStringVariablesPrefix + value.actor;
+	}
+	return value.type === 'object' ? value.actor : undefined;
+}
+
+/**
+ * Formats the completion value ({return}, {throw} or {terminated}) of an evaluation,
+ * with fullText the complete text of the returned value is fetched.
+ */
+function toResultVariable(protocol: FirefoxProtocolImpl, completion: any, fullText?: boolean): Promise<ResultVariable> {
+	if (completion.terminated) {
+		return Promise.resolve({display: '(terminated)'});
+	}
+	if ('throw' in completion) {
+		var s = formatGrip(completion.throw);
+		return Promise.resolve({display: `(error: ${s})`, id: getVariableId(completion.throw)});
+	}
+	if (fullText) {
+		return getFullText(protocol, completion.return).then((text) => {
+			return {display: text};
+		});
+	}
+	return Promise.resolve({display: formatGrip(completion.return), id: getVariableId(completion.return)});
+}
+
+// the actor of the returned object of a completion value, null for other values and exceptions
+function returnedObject(completion: any): string {
+	var value = completion.return;
+	return value && value.type === 'object' ? value.actor : null;
+}
+
+// the new value of an assignment, exceptions are thrown
+function toAssignedValue(completion: any): ResultVariable {
+	if (completion.terminated) {
+		throw new Error('evaluation terminated');
+	}
+	if ('throw' in completion) {
+		throw new Error(gripToText(completion.throw));
+	}
+	return {display: formatGrip(completion.return), id: getVariableId(completion.return)};
+}
+
+/**
+ * Returns the environment of our process with the given variables, null removes a variable.
+ */
+function createEnvironment(env: any): any {
+	var result = Object.create(null);
+	Object.keys(process.env).forEach((name) => {
+		result[name] = process.env[name];
+	});
+	Object.keys(env || {}).forEach((name) => {
+		if (env[name] === null) {
+			delete result[name];
+		} else {
+			result[name] = String(env[name]);
+		}
+	});
+	return result;
+}
+
+/**
+ * The pathMappings take precedence over webRoot, which is the folder of the page's origin.
+ */
+function createURLHelper(url: string, webRoot?: string, pathMappings?: PathMapping[]): IURLHelper {
+	if (pathMappings && pathMappings.length > 0) {
+		var mappings = pathMappings;
+		if (webRoot && url.indexOf('file://') !== 0) {
+			mappings = mappings.concat([webRootMapping(webRoot, url)]);
+		}
+		return new PathMappingURLHelper(mappings);
+	}
+	if (url.indexOf('file://') === 0) {
+		return new LocalURLHelper();
+	}
+	if (!webRoot) throw new Error('webRoot or pathMappings is not set');
+	return new HttpURLHelper(webRoot, url);
+}
+
 export class FirefoxSession {
 	private _process: ChildProcess;
 	private _protocol: FirefoxProtocolImpl;
+	private _pauseOnExceptions: {pause: boolean, ignoreCaught: boolean};
+	private _replayer: TraceReplayer;
+	// the URL of the debugged page, restarting navigates to it
+	private _url: string;
+	// reload the page when its local files change
+	private _watchers: FileWatcher[];
+	// the profile of the launched Firefox
+	private _profile: Profile;
 
 	public _onOutput: (s: string, category?: string) => void;
 	public _onNotification: (typic: string, args: any) => void;
 	public urlHelper: IURLHelper;
+	public sourceMaps: SourceMaps;
 
 	public constructor() {
-
-	}
-
-	private ensureProfileDirExists(p: string): void {
-		var exists = false;
-		try {
-			exists = fs.lstatSync(p).isDirectory();
-		} catch (e) {}
-		if (exists) return;
-		fs.mkdirSync(p);
-		fs.writeFileSync(path.join(p, 'prefs.js'), `
-user_pref("browser.shell.checkDefaultBrowser", false);
-user_pref("devtools.chrome.enabled", true);
-user_pref("devtools.debugger.prompt-connection", false);
-user_pref("devtools.debugger.remote-enabled", true);
-`);
+		this._watchers = [];
 	}
 
 	public launch(args: {runtimeExecutable?: string; port?: number; program: string;
-											 profileDir?: string, webRoot?: string, logEnabled?: boolean}): void {
-		var url: string = args.program;
+											 profileDir?: string, webRoot?: string, logEnabled?: boolean,
+											 timeout?: number, tabFilter?: TabFilter, skipFiles?: string[],
+											 traceFile?: string, requestTimeout?: number, reloadOnChange?: boolean,
+											 reloadIgnore?: string[], pathMappings?: PathMapping[], profileTemplate?: string,
+											 preferences?: any, firefoxArgs?: string[], env?: any}): Promise<void> {
+		var isLocal = args.program.indexOf('://') < 0;
+		var url: string = isLocal ? pathToFileUrl(args.program) : args.program;
 		var urlHelper: IURLHelper;
-		if (url.indexOf('://') < 0) {
-			urlHelper = new LocalURLHelper();
-			url = urlHelper.convertToWeb(url);
-		} else {
-			if (!args.webRoot) throw new Error('webRoot is not set');
-			urlHelper = new HttpURLHelper(args.webRoot, url);
+		var matchTab: (tab: TabInfo) => boolean;
+		var trace: TraceRecorder;
+		try {
+			urlHelper = createURLHelper(url, args.webRoot, args.pathMappings);
+			matchTab = createTabFilter(url, args.tabFilter);
+			trace = this.openTrace(args.traceFile);
+		} catch (e) {
+			return Promise.reject(e);
 		}
 		var port: number = args.port || DefaultPort;
-		var processArgs = [];
-		processArgs.push('--no-remote');
-		if (args.profileDir) {
-			this.ensureProfileDirExists(args.profileDir);
-			processArgs.push('--profile', args.profileDir);
-		}
-		processArgs.push('--start-debugger-server', port);
-		processArgs.push(url);
 
-		const firefoxPath = args.runtimeExecutable;
-		if (firefoxPath) {
+		var processFailed = new Promise<void>((resolve, reject) => {
+			const firefoxPath = args.runtimeExecutable;
+			if (!firefoxPath) {
+				return;
+			}
+			try {
+				this._profile = prepareProfile(args);
+			} catch (e) {
+				reject(new Error(`Cannot create the Firefox profile: ${e.message}`));
+				return;
+			}
+			var processArgs = [];
+			processArgs.push('--no-remote');
+			processArgs.push('--profile', this._profile.dir);
+			processArgs.push('--start-debugger-server', port);
+			processArgs.push(...(args.firefoxArgs || []));
+			processArgs.push(url);
 			this._process = spawn(firefoxPath, processArgs, {
 				detached: true,
-				stdio: ['ignore']
+				stdio: ['ignore'],
+				env: createEnvironment(args.env)
+			});
+			this._process.on('error', (e) => {
+				this._process = null;
+				reject(new Error(`Cannot start Firefox: ${e.message}`));
+			});
+			this._process.on('exit', () => {
+				this._process = null;
+			});
+		});
+		var connected = this.connect(port, matchTab, describeTabFilter(url, args.tabFilter), urlHelper, args.timeout);
+		this.configureProtocol(args, trace);
+		this._url = url;
+		if (args.reloadOnChange) {
+			var roots = (args.pathMappings || []).map((mapping) => mapping.path);
+			if (args.webRoot) {
+				roots.push(args.webRoot);
+			} else if (isLocal) {
+				roots.push(path.dirname(args.program));
+			}
+			if (roots.length > 0) {
+				this.watchFiles(roots, args.reloadIgnore);
+			} else {
+				this._onOutput('reloadOnChange needs the webRoot or pathMappings of the page', 'stderr');
+			}
+		}
+		return Promise.race([connected, processFailed]);
+	}
+
+	/**
+	 * With replayTrace, Firefox is played by a trace recorded with traceFile.
+	 */
+	public attach(args: {url: string; port?: number; webRoot?: string, logEnabled?: boolean,
+											 timeout?: number, tabFilter?: TabFilter, skipFiles?: string[],
+											 traceFile?: string, replayTrace?: string, requestTimeout?: number,
+											 pathMappings?: PathMapping[]}): Promise<void> {
+		var urlHelper: IURLHelper;
+		var matchTab: (tab: TabInfo) => boolean;
+		var trace: TraceRecorder;
+		try {
+			urlHelper = createURLHelper(args.url, args.webRoot, args.pathMappings);
+			matchTab = createTabFilter(args.url, args.tabFilter);
+			trace = this.openTrace(args.traceFile);
+		} catch (e) {
+			return Promise.reject(e);
+		}
+		var portReady = Promise.resolve(args.port || DefaultPort);
+		if (args.replayTrace) {
+			try {
+				this._replayer = new TraceReplayer(readTrace(args.replayTrace));
+			} catch (e) {
+				if (trace) {
+					trace.close();
+				}
+				return Promise.reject(new Error(`Cannot read the trace ${args.replayTrace}: ${e.message}`));
+			}
+			this._replayer.onMismatch = (message) => {
+				this._onOutput(`Trace replay: ${message}`, 'stderr');
+			};
+			portReady = this._replayer.start();
+		}
+		return portReady.then((port) => {
+			var connected = this.connect(port, matchTab, describeTabFilter(args.url, args.tabFilter), urlHelper,
+				args.timeout);
+			this.configureProtocol(args, trace);
+			this._url = args.url;
+			return connected;
+		});
+	}
+
+	// returns null without a trace file, throws if the file cannot be written
+	private openTrace(traceFile: string): TraceRecorder {
+		if (!traceFile) {
+			return null;
+		}
+		try {
+			return new TraceRecorder(traceFile, (e) => {
+				this._onOutput(`Cannot write the trace ${traceFile}: ${e.message}`, 'stderr');
 			});
+		} catch (e) {
+			throw new Error(`Cannot write the trace ${traceFile}: ${e.message}`);
 		}
-		this.attach(port, url, urlHelper);
+	}
+
+	private configureProtocol(args: {logEnabled?: boolean, skipFiles?: string[], requestTimeout?: number},
+														trace: TraceRecorder): void {
 		this._protocol.logEnabled = !!args.logEnabled;
+		this._protocol.requestTimeout = args.requestTimeout || DefaultRequestTimeout;
+		this._protocol.isSkipped = createSkipFilesMatcher(args.skipFiles);
+		this._protocol.trace = trace;
 	}
 
-	public attach(port: number, program: string, urlHelper: IURLHelper): void {
+	/**
+	 * Keeps connecting to the debugger server (with backoff) until it greets us
+	 * and the tab to debug is found, or the timeout expires.
+	 */
+	private connect(port: number, matchTab: (tab: TabInfo) => boolean, tabDescription: string,
+									urlHelper: IURLHelper, timeout?: number): Promise<void> {
 		this.urlHelper = urlHelper;
-		this._protocol = new FirefoxProtocolImpl(program, urlHelper, this);
-		setTimeout(() => {
-			this._protocol.connect(port)
-		}, 5000);
+		this.sourceMaps = new SourceMaps(urlHelper);
+		var protocol = new FirefoxProtocolImpl(matchTab, urlHelper, this.sourceMaps, this);
+		this._protocol = protocol;
+
+		var deadline = Date.now() + (timeout || DefaultConnectTimeout);
+		var retryDelay = ConnectRetryInitialDelay;
+		var tryConnect = (): Promise<void> => {
+			return protocol.connect(port).catch((e) => {
+				if (Date.now() + retryDelay > deadline) {
+					throw new Error(`Cannot connect to Firefox on port ${port}: ${e.message}`);
+				}
+				return delay(retryDelay).then(() => {
+					retryDelay = Math.min(retryDelay * 2, ConnectRetryMaxDelay);
+					return tryConnect();
+				});
+			});
+		};
+		var greeted = false;
+		var expired = new Promise<void>((resolve, reject) => {
+			setTimeout(() => {
+				reject(new Error(greeted ?
+					`No tab matching ${tabDescription} found` :
+					`Firefox debugger server on port ${port} did not respond`));
+			}, Math.max(deadline - Date.now(), 0));
+		});
+		var selected = tryConnect().then(() => protocol.ready).then(() => {
+			greeted = true;
+			return protocol.tabSelected;
+		});
+		return Promise.race([selected, expired]).then(() => {
+			protocol.log('Connected to the debugger server.');
+		}, (e) => {
+			protocol.disconnect();
+			throw e;
+		});
 	}
 
-	public stop(): void {
-		this._process.kill();
+	/**
+	 * Reloads the page whenever the files under the directories change.
+	 */
+	private watchFiles(roots: string[], ignoredNames?: string[]): void {
+		roots.forEach((root) => {
+			try {
+				this._watchers.push(new FileWatcher(root, (paths) => {
+					this._onOutput(`Reloading the page, changed: ${paths.join(', ')}`, 'console');
+					this.reload().catch((e) => {
+						this._onOutput(`Cannot reload the page: ${e.message}`, 'stderr');
+					});
+				}, undefined, ignoredNames));
+			} catch (e) {
+				this._onOutput(`Cannot watch ${root} for changes: ${e.message}`, 'stderr');
+			}
+		});
 	}
 
-	public resume(reason?: string): void {
-		this._protocol.contextActor.resume(reason);
+	/**
+	 * Loads the debugged page again, keeping the connection to Firefox.
+	 */
+	public restart(): Promise<void> {
+		return this.attachedTab().then((tabActor) => tabActor.navigateTo(this._url));
 	}
 
-	public getStackTrace(startFrame?: number, maxLevels?: number): Promise< Array<{name: string, source: string, line: number}> > {
-		return this._protocol.contextActor.getStackTrace(startFrame, maxLevels);
+	/**
+	 * Reloads the page which is shown in the tab.
+	 */
+	public reload(): Promise<void> {
+		return this.attachedTab().then((tabActor) => tabActor.reload());
 	}
 
-	public getScopes(frame: number): Promise< Array<{type: string, id: string}> > {
-		return this._protocol.contextActor.getScopes(frame);
+	private attachedTab(): Promise<TabActor> {
+		var protocol = this._protocol;
+		if (!protocol || !protocol.tabActor || !protocol.connected) {
+			return Promise.reject(new Error('not connected to Firefox'));
+		}
+		return Promise.resolve(protocol.tabActor);
+	}
+
+	/**
+	 * Kills the launched browser and removes its temporary profile. If the browser
+	 * was not started by us, only detaches from the tab and leaves the browser running.
+	 */
+	public stop(): Promise<void> {
+		this._watchers.forEach((watcher) => watcher.close());
+		this._watchers = [];
+		var stopped: Promise<void>;
+		if (this._process) {
+			stopped = this.killProcess();
+		} else {
+			stopped = this.detach().then(() => {
+				if (this._replayer) {
+					this._replayer.stop();
+					this._replayer = null;
+				}
+			});
+		}
+		return stopped.then(() => {
+			if (!this._profile) {
+				return;
+			}
+			try {
+				removeProfile(this._profile);
+			} catch (e) {
+				this._onOutput(`Cannot remove the profile ${this._profile.dir}: ${e.message}`, 'stderr');
+			}
+			this._profile = null;
+		});
 	}
 
-	public evaluate(expr: string, frame?: number): Promise<ResultVariable> {
-		return this._protocol.contextActor.evaluate(expr, frame);
+	// resolves when Firefox exited and does not use its profile anymore
+	private killProcess(): Promise<void> {
+		var firefox = this._process;
+		this._process = null;
+		return new Promise<void>((resolve) => {
+			var timer = setTimeout(resolve, ProcessExitTimeout);
+			firefox.on('exit', () => {
+				clearTimeout(timer);
+				resolve(undefined);
+			});
+			firefox.kill();
+		});
 	}
 
-	public getVariables(refId: string): Promise< Array<{name: string, value: ResultVariable}> > {
-		return this._protocol.contextActor.getVariables(refId);
+	private detach(): Promise<void> {
+		var protocol = this._protocol;
+		// there is no answer to 'detach' when the connection is lost
+		if (!protocol || !protocol.tabActor || !protocol.connected) {
+			if (protocol) {
+				protocol.disconnect();
+			}
+			return Promise.resolve(undefined);
+		}
+		return protocol.tabActor.detach().then(() => {
+			protocol.disconnect();
+		});
+	}
+
+	public resume(threadId: number, reason?: string): void {
+		this._protocol.getThread(threadId).resume(reason, this._pauseOnExceptions);
+	}
+
+	/**
+	 * Toggles blackboxing of the frame's source and resolves to the new state.
+	 */
+	public toggleBlackboxing(threadId: number, frame: number): Promise<boolean> {
+		var contextActor = this._protocol.getThread(threadId);
+		return contextActor.getStackTrace(frame, 1).then((frames) => {
+			var blackboxed = !frames[0].blackboxed;
+			return contextActor.setBlackboxed(frames[0].sourceActor, blackboxed).then(() => blackboxed);
+		});
+	}
+
+	public interrupt(threadId: number): void {
+		this._protocol.getThread(threadId).interrupt();
+	}
+
+	/**
+	 * The settings are sent to the thread with the next resume.
+	 */
+	public setPauseOnExceptions(pause: boolean, ignoreCaught: boolean): void {
+		this._pauseOnExceptions = {pause: pause, ignoreCaught: ignoreCaught};
+	}
+
+	public getStackTrace(threadId: number, startFrame?: number, maxLevels?: number):
+			Promise<StackFrameInfo[]> {
+		return this._protocol.getThread(threadId).getStackTrace(startFrame, maxLevels);
+	}
+
+	public getSourceText(threadId: number, sourceId: string): Promise<string> {
+		return this._protocol.getThread(threadId).getSourceText(sourceId);
+	}
+
+	public getScopes(threadId: number, frame: number): Promise< Array<{type: string, id: string}> > {
+		return this._protocol.getThread(threadId).getScopes(frame);
+	}
+
+	/**
+	 * Without a frame the expression is evaluated in the page's global scope.
+	 */
+	public evaluate(threadId: number, expr: string, frame?: number, fullText?: boolean): Promise<ResultVariable> {
+		if (frame === undefined) {
+			return this._protocol.consoleActor.evaluate(expr, fullText);
+		}
+		return this._protocol.getThread(threadId).evaluate(expr, frame, fullText);
+	}
+
+	public getVariables(threadId: number, refId: string): Promise< Array<{name: string, value: ResultVariable}> > {
+		return this._protocol.getThread(threadId).getVariables(refId);
+	}
+
+	/**
+	 * Completions are provided by the page's console, paused in the page's thread
+	 * they include the frame's variables. The functions are the matches whose values
+	 * are functions.
+	 */
+	public getCompletions(threadId: number, text: string, cursor: number, frame?: number):
+			Promise<{matches: string[], matchProp: string, functions: string[]}> {
+		var consoleActor = this._protocol.consoleActor;
+		if (threadId !== MainThreadId) {
+			return Promise.reject(new Error('completions are not available in workers'));
+		}
+		var completed = frame === undefined ? consoleActor.autocomplete(text, cursor) :
+			this._protocol.getThread(threadId).getFrameActor(frame).then((frameActor) => {
+				return consoleActor.autocomplete(text, cursor, frameActor);
+			});
+		return completed.then((result) => {
+			var beforeName = text.substring(0, cursor - result.matchProp.length);
+			return this.getFunctionNames(threadId, beforeName, frame).catch((e) => {
+				// the matches are completed without their types
+				return [];
+			}).then((functions) => {
+				return {matches: result.matches, matchProp: result.matchProp, functions: functions};
+			});
+		});
+	}
+
+	/**
+	 * Resolves to the names of the functions among the properties of the object before
+	 * a dot or among the variables in scope, other expressions than a chain of names
+	 * (e.g. calls) are not evaluated for the object.
+	 */
+	private getFunctionNames(threadId: number, beforeName: string, frame?: number): Promise<string[]> {
+		var thread = this._protocol.getThread(threadId);
+		var objectLoaded: Promise<string>;
+		if (/\.\s*$/.test(beforeName)) {
+			var object = /(?:^|[^\w$.\s])\s*([A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*)\s*\.\s*$/.exec(beforeName);
+			if (!object) {
+				return Promise.resolve([]);
+			}
+			objectLoaded = frame === undefined ? this._protocol.consoleActor.evaluateObject(object[1]) :
+				thread.evaluateObject(object[1], frame);
+		} else if (frame === undefined) {
+			// the global variables are the properties of the global object
+			objectLoaded = this._protocol.consoleActor.evaluateObject('this');
+		} else {
+			return thread.getScopes(frame).then((scopes) => {
+				return Promise.all(scopes.map((scope) => thread.getFunctionNames(scope.id)));
+			}).then((names) => [].concat(...names));
+		}
+		return objectLoaded.then((actor) => actor ? thread.getFunctionNames(actor) : []);
+	}
+
+	public setVariable(threadId: number, target: string, value: string, frame?: number): Promise<ResultVariable> {
+		if (frame === undefined) {
+			return this._protocol.consoleActor.setVariable(target, value);
+		}
+		return this._protocol.getThread(threadId).setVariable(target, value, frame);
+	}
+
+	/**
+	 * Assigns to the property of the object without an expression to refer to it, e.g. an
+	 * object returned by an evaluation. The value is evaluated in the frame if one is given.
+	 */
+	public setProperty(threadId: number, objectActor: string, name: string, value: string, frame?: number):
+			Promise<ResultVariable> {
+		var consoleActor = this._protocol.consoleActor;
+		if (threadId !== MainThreadId) {
+			return Promise.reject(new Error('the properties of evaluated values cannot be set in workers'));
+		}
+		if (frame === undefined) {
+			return consoleActor.setProperty(objectActor, name, value);
+		}
+		return this._protocol.getThread(threadId).getFrameActor(frame).then((frameActor) => {
+			return consoleActor.setProperty(objectActor, name, value, frameActor);
+		});
 	}
 
-	public addBreakpoints(sourceId: string, lines: number[]): Promise< Array<{id: string, line: number}> > {
-		return this._protocol.contextActor.addBreakpoints(sourceId, lines);
+	public addBreakpoints(sourceId: string, locations: BreakpointLocation[]):
+			Promise< Array<{id: string, line: number, column?: number}> > {
+		return this._protocol.contextActor.addBreakpoints(sourceId, locations);
 	}
 
 	public removeBreakpoints(ids: string[]): Promise<any> {
@@ -0,0 +1,40 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+function globToRegExp(pattern: string): RegExp {
+	var source = '';
+	var i = 0;
+	while (i < pattern.length) {
+		var c = pattern.charAt(i);
+		if (pattern.substr(i, 3) === '**/') {
+			source += '(?:.*/)?';
+			i += 3;
+		} else if (pattern.substr(i, 2) === '**') {
+			source += '.*';
+			i += 2;
+		} else {
+			source += c === '*' ? '[^/]*' : c === '?' ? '[^/]' : c.replace(/[\\^$.+()[\]{}|]/g, '\\$&');
+			i++;
+		}
+	}
+	return new RegExp('^' + source + '$');
+}
+
+/**
+ * Returns a predicate for the local paths and URLs of scripts which should be
+ * blackboxed. In the glob patterns '**' matches any number of directories,
+ * '*' and '?' match characters other than '/'.
+ */
+export function createSkipFilesMatcher(patterns: string[]): (pathOrUrl: string) => boolean {
+	var regExps = (patterns || []).map((pattern) => globToRegExp(pattern.replace(/\\/g, '/')));
+	return (pathOrUrl) => {
+		if (!pathOrUrl) {
+			return false;
+		}
+		var normalized = pathOrUrl.replace(/\\/g, '/');
+		return regExps.some((regExp) => regExp.test(normalized));
+	};
+}
@@ -0,0 +1,170 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import {SourceMapConsumer} from 'source-map';
+import {IURLHelper} from './ffUrlHelper';
+
+import * as fs from 'fs';
+import * as url from 'url';
+
+const DataURLPattern = /^data:([^,]*?)(;base64)?,(.*)$/;
+
+export interface OriginalLocation {
+	path: string;
+	line: number;
+	column: number;
+}
+
+export interface GeneratedLocation {
+	url: string;
+	line: number;
+	column: number;
+}
+
+class SourceMap {
+	// maps from local path of an original source to its name in the source map
+	private _sources: any;
+
+	public constructor(public generatedUrl: string, private _consumer: SourceMapConsumer,
+										 mapUrl: string, urlHelper: IURLHelper) {
+		this._sources = Object.create(null);
+		_consumer.sources.forEach((source) => {
+			var path = urlHelper.convertToLocal(url.resolve(mapUrl, source));
+			if (path) {
+				this._sources[path] = source;
+			}
+		});
+	}
+
+	public get paths(): string[] {
+		return Object.keys(this._sources);
+	}
+
+	public originalPositionFor(line: number, column: number): OriginalLocation {
+		var position = this._consumer.originalPositionFor({line: line, column: column || 0});
+		if (position.source === null) {
+			return null;
+		}
+		var path = null;
+		Object.keys(this._sources).some((p) => {
+			if (this._sources[p] !== position.source) {
+				return false;
+			}
+			path = p;
+			return true;
+		});
+		if (!path) {
+			return null;
+		}
+		return {path: path, line: position.line, column: position.column};
+	}
+
+	public generatedPositionFor(path: string, line: number, column?: number): GeneratedLocation {
+		var source = this._sources[path];
+		if (!source) {
+			return null;
+		}
+		var positions = column === undefined ?
+			this._consumer.allGeneratedPositionsFor({source: source, line: line}) :
+			this._consumer.allGeneratedPositionsFor({source: source, line: line, column: column});
+		if (positions.length === 0) {
+			return null;
+		}
+		var first = positions[0];
+		positions.forEach((p) => {
+			if (p.line < first.line || (p.line === first.line && p.column < first.column)) {
+				first = p;
+			}
+		});
+		return {url: this.generatedUrl, line: first.line, column: first.column};
+	}
+}
+
+/**
+ * Keeps source maps of the loaded scripts and translates locations between
+ * generated scripts and original (local) sources.
+ */
+export class SourceMaps {
+	// maps from generated URL to SourceMap
+	private _maps: any;
+	// maps from local path of an original source to SourceMap
+	private _originals: any;
+
+	public constructor(private _urlHelper: IURLHelper) {
+		this._maps = Object.create(null);
+		this._originals = Object.create(null);
+	}
+
+	/**
+	 * Loads the source map announced for the generated script (inline data URL or
+	 * a file on disk) and returns local paths of the original sources.
+	 */
+	public load(generatedUrl: string, sourceMapURL: string): Promise<string[]> {
+		var match = DataURLPattern.exec(sourceMapURL);
+		var contentPromise: Promise<string>;
+		var mapUrl: string;
+		if (match) {
+			mapUrl = generatedUrl;
+			contentPromise = Promise.resolve(match[2] ?
+				new Buffer(match[3], 'base64').toString('utf8') : decodeURIComponent(match[3]));
+		} else {
+			mapUrl = url.resolve(generatedUrl, sourceMapURL);
+			contentPromise = this.readFile(mapUrl);
+		}
+		return contentPromise.then((content) => {
+			var map = new SourceMap(generatedUrl, new SourceMapConsumer(content), mapUrl, this._urlHelper);
+			this._maps[generatedUrl] = map;
+			var paths = map.paths;
+			paths.forEach((path) => {
+				this._originals[path] = map;
+			});
+			return paths;
+		});
+	}
+
+	private readFile(mapUrl: string): Promise<string> {
+		var path = this._urlHelper.convertToLocal(mapUrl);
+		return new Promise<string>((resolve, reject) => {
+			if (!path) {
+				reject(new Error('no local file for ' + mapUrl));
+				return;
+			}
+			fs.readFile(path, 'utf8', (err, data) => {
+				if (err) {
+					reject(err);
+				} else {
+					resolve(data);
+				}
+			});
+		});
+	}
+
+	public hasSourceMap(generatedUrl: string): boolean {
+		return !!this._maps[generatedUrl];
+	}
+
+	public isOriginal(path: string): boolean {
+		return !!this._originals[path];
+	}
+
+	/**
+	 * Returns the original location for a location in a generated script, or null
+	 * if the script has no source map or the location is not mapped.
+	 */
+	public originalPositionFor(generatedUrl: string, line: number, column?: number): OriginalLocation {
+		var map: SourceMap = this._maps[generatedUrl];
+		return map ? map.originalPositionFor(line, column) : null;
+	}
+
+	/**
+	 * Returns the first generated location for a line (and column) in an original
+	 * source, or null if the source is not known or the line has no code.
+	 */
+	public generatedPositionFor(path: string, line: number, column?: number): GeneratedLocation {
+		var map: SourceMap = this._originals[path];
+		return map ? map.generatedPositionFor(path, line, column) : null;
+	}
+}
@@ -0,0 +1,82 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+const RegExpPattern = /^\/(.*)\/([gimy]*)$/;
+
+/**
+ * Selects the tab to debug. Patterns are globs where '*' matches any characters,
+ * or regular expressions enclosed in slashes. A tab has to match all given
+ * patterns, an empty filter selects the first tab.
+ */
+export interface TabFilter {
+	url?: string;
+	title?: string;
+}
+
+export interface TabInfo {
+	url: string;
+	title?: string;
+}
+
+// throws if the regular expression is invalid
+function createMatcher(name: string, pattern: string): (s: string) => boolean {
+	var match = RegExpPattern.exec(pattern);
+	var regExp: RegExp;
+	if (match) {
+		try {
+			regExp = new RegExp(match[1], match[2]);
+		} catch (e) {
+			throw new Error(`Invalid tabFilter ${name} regular expression ${pattern}: ${e.message}`);
+		}
+	} else {
+		var source = pattern.split('*').map((part) => {
+			return part.replace(/[\\^$.+?()[\]{}|\/]/g, '\\$&');
+		}).join('.*');
+		regExp = new RegExp('^' + source + '$');
+	}
+	return (s) => regExp.test(s || '');
+}
+
+// drops the hash, query and trailing slash which change with client side routing and redirects
+function normalizeUrl(url: string): string {
+	return (url || '').replace(/[?#].*$/, '').replace(/\/$/, '');
+}
+
+/**
+ * Returns a predicate for the tabs to debug. Without a filter the tab with the
+ * program's URL is selected, ignoring its query, hash and trailing slash.
+ * Throws if a pattern is an invalid regular expression.
+ */
+export function createTabFilter(program: string, filter?: TabFilter): (tab: TabInfo) => boolean {
+	if (!filter) {
+		var programUrl = normalizeUrl(program);
+		return (tab) => normalizeUrl(tab.url) === programUrl;
+	}
+	var matchers: Array<(tab: TabInfo) => boolean> = [];
+	if (filter.url) {
+		var matchUrl = createMatcher('url', filter.url);
+		matchers.push((tab) => matchUrl(tab.url));
+	}
+	if (filter.title) {
+		var matchTitle = createMatcher('title', filter.title);
+		matchers.push((tab) => matchTitle(tab.title));
+	}
+	return (tab) => matchers.every((matcher) => matcher(tab));
+}
+
+export function describeTabFilter(program: string, filter?: TabFilter): string {
+	if (!filter) {
+		return program;
+	}
+	var parts: string[] = [];
+	if (filter.url) {
+		parts.push('url ' + filter.url);
+	}
+	if (filter.title) {
+		parts.push('title ' + filter.title);
+	}
+	return parts.length > 0 ? parts.join(' and ') : 'any tab';
+}
@@ -0,0 +1,165 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import {FirefoxProtocol} from './ffProtocol';
+
+import {createServer, Server, Socket} from 'net';
+import * as fs from 'fs';
+
+/**
+ * A line of a trace file. Packets are 'sent' by the adapter and 'received'
+ * from Firefox, bulk packets are recorded without their data.
+ */
+export interface TraceEntry {
+	direction: string;
+	time: number;
+	actor: string;
+	body: any;
+	bulk?: boolean;
+}
+
+/**
+ * Writes the packets exchanged with Firefox to a JSONL file.
+ */
+export class TraceRecorder {
+	private _stream: fs.WriteStream;
+	// set once writing failed, the recording stops
+	private _failed: boolean;
+	private _closed: Promise<void>;
+
+	/**
+	 * Throws if the file cannot be created, later write errors are passed to onError.
+	 */
+	public constructor(path: string, onError: (e: Error) => void) {
+		// opened synchronously to fail before the session starts
+		var fd = fs.openSync(path, 'w');
+		this._stream = fs.createWriteStream(path, <any>{fd: fd});
+		this._failed = false;
+		this._stream.on('error', (e) => {
+			if (!this._failed) {
+				this._failed = true;
+				onError(e);
+			}
+		});
+		this._closed = new Promise<void>((resolve) => {
+			this._stream.on('close', () => resolve(undefined));
+		});
+	}
+
+	public record(direction: string, body: any): void {
+		var actor = direction === 'sent' ? body.to : body.from;
+		this.write({direction: direction, time: Date.now(), actor: actor, body: body});
+	}
+
+	public recordBulk(actor: string, type: string, length: number): void {
+		this.write({direction: 'received', time: Date.now(), actor: actor,
+			body: {type: type, length: length}, bulk: true});
+	}
+
+	/**
+	 * Resolves once the file is written and closed.
+	 */
+	public close(): Promise<void> {
+		this._stream.end();
+		return this._closed;
+	}
+
+	private write(entry: TraceEntry): void {
+		if (!this._failed) {
+			this._stream.write(JSON.stringify(entry) + '\n');
+		}
+	}
+}
+
+export function readTrace(path: string): TraceEntry[] {
+	return fs.readFileSync(path, 'utf8').split('\n').filter((line) => line.trim() !== '').map((line) => {
+		return JSON.parse(line);
+	});
+}
+
+/**
+ * Plays Firefox's part of a trace for the adapter connecting to it. The received
+ * packets are sent in order, each once the adapter sent the packets to its actor
+ * recorded before it. Packets missing in the trace are reported and ignored.
+ */
+export class TraceReplayer extends FirefoxProtocol {
+	private _server: Server;
+	private _entries: TraceEntry[];
+	// index of the first entry not played yet
+	private _next: number;
+	// the sent entries the adapter's packets were matched with
+	private _matched: boolean[];
+
+	public onMismatch: (message: string) => void;
+
+	public constructor(entries: TraceEntry[]) {
+		super();
+		this._entries = entries.filter((entry) => !entry.bulk);
+		this._next = 0;
+		this._matched = [];
+		this.onMismatch = () => {};
+	}
+
+	/**
+	 * Resolves to the port to connect to, only one connection is served.
+	 */
+	public start(): Promise<number> {
+		return new Promise<number>((resolve, reject) => {
+			this._server = createServer((socket: Socket) => {
+				this._server.close();
+				this.setupSocket(socket);
+				this.play();
+			});
+			this._server.on('error', reject);
+			this._server.listen(0, 'localhost', undefined, () => {
+				resolve(this._server.address().port);
+			});
+		});
+	}
+
+	public stop(): void {
+		this._server.close();
+		this.disconnect();
+	}
+
+	protected onExecuteCommand(body: any): void {
+		var index = -1;
+		this._entries.some((entry, i) => {
+			if (entry.direction !== 'sent' || this._matched[i] ||
+					entry.body.to !== body.to || entry.body.type !== body.type) {
+				return false;
+			}
+			index = i;
+			return true;
+		});
+		if (index < 0) {
+			this.onMismatch('unexpected packet ' + JSON.stringify(body));
+			return;
+		}
+		this._matched[index] = true;
+		this.play();
+	}
+
+	private play(): void {
+		while (this._next < this._entries.length) {
+			var entry = this._entries[this._next];
+			if (entry.direction !== 'sent') {
+				if (this.isWaiting(entry.body.from)) {
+					return;
+				}
+				this.sendResponse(entry.body);
+			}
+			this._next++;
+		}
+	}
+
+	// true if a packet to the actor recorded before the next entry was not sent yet
+	private isWaiting(actor: string): boolean {
+		return this._entries.slice(0, this._next).some((entry, i) => {
+			return entry.direction === 'sent' && entry.body.to === actor && !this._matched[i];
+		});
+	}
+}
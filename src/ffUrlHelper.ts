@@ -6,38 +6,141 @@ import * as path from 'path';
 import * as url from 'url';
 
 export interface IURLHelper {
+	/** Returns null if the URL has no local file. */
 	convertToLocal(url_string: string): string;
 	convertToWeb(path_string: string): string;
 }
 
+/**
+ * Maps the URLs starting with url to the files in the local directory path.
+ */
+export interface PathMapping {
+	url: string;
+	path: string;
+}
+
+const DriveLetterPathPattern = /^[a-zA-Z]:[\\\/]/;
+
+// decodes the percent-encoded segments of the path of a URL, null if it is malformed
+function decodeUrlPath(urlPath: string): string {
+	try {
+		return urlPath.split('/').map((segment) => decodeURIComponent(segment)).join('/');
+	} catch (e) {
+		return null;
+	}
+}
+
+function encodeUrlPath(segments: string[]): string {
+	return segments.map((segment) => encodeURI(segment).replace(/[?#]/g, encodeURIComponent)).join('/');
+}
+
+function stripQueryAndHash(url_string: string): string {
+	return url_string.replace(/[?#].*$/, '');
+}
+
+/**
+ * Returns the local path of a file URL, file:///C:/... is a Windows path.
+ * Returns null for other URLs.
+ */
+export function fileUrlToPath(url_string: string): string {
+	if (url_string.indexOf('file:///') !== 0) {
+		return null;
+	}
+	var decoded = decodeUrlPath(stripQueryAndHash(url_string.substring('file://'.length)));
+	if (decoded && DriveLetterPathPattern.test(decoded.substring(1))) {
+		return path.win32.normalize(decoded.substring(1));
+	}
+	return decoded;
+}
+
+export function pathToFileUrl(path_string: string): string {
+	if (DriveLetterPathPattern.test(path_string)) {
+		var segments = path_string.split(/[\\\/]/);
+		return 'file:///' + segments[0] + '/' + encodeUrlPath(segments.slice(1));
+	}
+	return 'file://' + encodeUrlPath(path_string.split('/'));
+}
+
 export class LocalURLHelper implements IURLHelper {
 	public constructor() {}
 
 	public convertToLocal(url_string: string): string {
-		if (url_string.indexOf('file:///') !== 0) {
-			return url_string;
-		}
-		return url_string.substring('file://'.length);
+		return fileUrlToPath(url_string);
 	}
 
 	public convertToWeb(path_string: string): string {
-		return 'file://' + path_string;
+		return pathToFileUrl(path_string);
 	}
 }
 
-export class HttpURLHelper implements IURLHelper {
-	public constructor(public webRoot: string, public baseUrl: string) {}
+/**
+ * Maps URLs to local files with the most specific (longest) matching mapping,
+ * file URLs without a mapping are mapped to their own paths. Other URLs, e.g.
+ * of scripts from a CDN, have no local file.
+ */
+export class PathMappingURLHelper implements IURLHelper {
+	// the mappings by decreasing length of their URLs and paths
+	private _byUrl: PathMapping[];
+	private _byPath: PathMapping[];
+
+	public constructor(mappings: PathMapping[]) {
+		var normalized = mappings.map((mapping) => ({
+			// prefixes match whole path segments only
+			url: mapping.url.replace(/\/?$/, '/'),
+			path: path.normalize(mapping.path)
+		}));
+		this._byUrl = normalized.slice().sort((a, b) => b.url.length - a.url.length);
+		this._byPath = normalized.slice().sort((a, b) => b.path.length - a.path.length);
+	}
 
 	public convertToLocal(url_string: string): string {
-		var parsed = url.parse(url_string);
-		var pathname = parsed.pathname;
-		return path.join(this.webRoot, pathname.substring(1));
+		var stripped = stripQueryAndHash(url_string);
+		var mapping: PathMapping = null;
+		this._byUrl.some((candidate) => {
+			if (stripped.indexOf(candidate.url) !== 0 && stripped + '/' !== candidate.url) {
+				return false;
+			}
+			mapping = candidate;
+			return true;
+		});
+		if (!mapping) {
+			return fileUrlToPath(url_string);
+		}
+		var relative = decodeUrlPath(stripped.substring(mapping.url.length));
+		return relative === null ? null : path.join(mapping.path, relative);
 	}
 
 	public convertToWeb(path_string: string): string {
-		var relative = path.relative(this.webRoot, path_string);
-		var parts = relative.split('/');
-		while (parts[0] === '.' || parts[0] === '..') parts.shift();
-		return url.resolve(this.baseUrl, '/' + parts.join('/'));
+		var mapping: PathMapping = null;
+		var relative: string;
+		this._byPath.some((candidate) => {
+			relative = path.relative(candidate.path, path_string);
+			if (relative.indexOf('..') === 0 || path.isAbsolute(relative)) {
+				return false;
+			}
+			mapping = candidate;
+			return true;
+		});
+		if (!mapping) {
+			return pathToFileUrl(path_string);
+		}
+		return mapping.url + (relative ? encodeUrlPath(relative.split(/[\\\/]/)) : '');
+	}
+}
+
+/**
+ * Maps the URLs of the page's origin to the files under webRoot.
+ */
+export class HttpURLHelper extends PathMappingURLHelper {
+	public constructor(public webRoot: string, public baseUrl: string) {
+		super([webRootMapping(webRoot, baseUrl)]);
 	}
 }
+
+/**
+ * Maps the origin of the page's URL to webRoot.
+ */
+export function webRootMapping(webRoot: string, pageUrl: string): PathMapping {
+	var parsed = url.parse(pageUrl);
+	return {url: parsed.protocol + '//' + parsed.host + '/', path: webRoot};
+}
@@ -7,8 +7,12 @@
 
 import assert = require('assert');
 import * as Path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
 import {DebugClient} from 'vscode-debugadapter-testsupport';
 import {DebugProtocol} from 'vscode-debugprotocol';
+import {MockFirefox, MockProgram, linesProgram, loopProgram} from './mockFirefox';
+import {pathToFileUrl} from '../ffUrlHelper';
 
 suite('Node Debug Adapter', () => {
 
@@ -19,6 +23,33 @@ suite('Node Debug Adapter', () => {
 
 
 	let dc: DebugClient;
+	let firefox: MockFirefox;
+
+	// the debugger server the adapter connects to instead of Firefox, resolves to its port
+	function startFirefox(program: MockProgram): Promise<number> {
+		firefox = new MockFirefox(program);
+		return firefox.start();
+	}
+
+	// launches the program with the breakpoints of its file, resolves to the setBreakpoints response
+	function launchWithBreakpoints(program: string, port: number, breakpoints: DebugProtocol.SourceBreakpoint[]):
+			Promise<DebugProtocol.SetBreakpointsResponse> {
+		return Promise.all<any>([
+			dc.waitForEvent('initialized').then(() => {
+				return dc.setBreakpointsRequest({ source: { path: program }, breakpoints: breakpoints });
+			}).then(response => {
+				return dc.configurationDoneRequest().then(() => response);
+			}),
+			dc.launch({ program: program, port: port })
+		]).then(results => results[0]);
+	}
+
+	// resolves to the value of the expression in the top frame of the stopped page
+	function evaluateInTopFrame(expression: string): Promise<string> {
+		return dc.stackTraceRequest({ threadId: 1 }).then(response => {
+			return dc.evaluateRequest({ expression: expression, frameId: response.body.stackFrames[0].id });
+		}).then(response => response.body.result);
+	}
 
 
 	setup(done => {
@@ -32,6 +63,10 @@ suite('Node Debug Adapter', () => {
 
 	teardown(done => {
 		dc.stop().then(_ => {
+			if (firefox) {
+				firefox.stop();
+				firefox = null;
+			}
 			done();
 		}).catch(err => {
 			done(err);
@@ -55,6 +90,14 @@ suite('Node Debug Adapter', () => {
 		test('should return supported features', () => {
 			return dc.initializeRequest().then(response => {
 				assert.equal(response.body.supportsConfigurationDoneRequest, true);
+				assert.equal(response.body.supportsConditionalBreakpoints, true);
+				assert.equal(response.body.supportsHitConditionalBreakpoints, true);
+				assert.equal(response.body.supportsExceptionInfoRequest, true);
+				assert.equal(response.body.supportsSetVariable, true);
+				assert.equal(response.body.supportsCompletionsRequest, true);
+				assert.equal(response.body.supportsLoadedSourcesRequest, true);
+				assert.equal(response.body.supportsRestartRequest, true);
+				assert.deepEqual(response.body.exceptionBreakpointFilters.map(f => f.filter), ['all', 'uncaught']);
 			});
 		});
 
@@ -79,11 +122,11 @@ suite('Node Debug Adapter', () => {
 
 			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
 
-			return Promise.all([
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
 				dc.configurationSequence(),
-				dc.launch({ program: PROGRAM }),
+				dc.launch({ program: PROGRAM, port: port }),
 				dc.waitForEvent('terminated')
-			]);
+			]));
 		});
 
 		test('should stop on entry', () => {
@@ -91,11 +134,76 @@ suite('Node Debug Adapter', () => {
 			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
 			const ENTRY_LINE = 1;
 
-			return Promise.all([
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
 				dc.configurationSequence(),
-				dc.launch({ program: PROGRAM, stopOnEntry: true }),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
 				dc.assertStoppedLocation('entry', { line: ENTRY_LINE } )
-			]);
+			]));
+		});
+
+		test('should report error when Firefox does not respond', done => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+			dc.launch({ program: PROGRAM, port: 46001, timeout: 500 }).then(() => {
+				done(new Error("does not report error when there is no debugger server"));
+			}).catch(() => {
+				done();
+			});
+		});
+
+		// the fake Firefox is a script started by its shebang line, which Windows does not support
+		var posixTest: (expectation: string, assertion: () => Promise<void>) => void =
+			process.platform === 'win32' ? test.skip : test;
+
+		posixTest('should start Firefox in a temporary profile and remove it afterwards', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+			// writes its arguments, an environment variable and the profile's user.js like Firefox would read them
+			var executable = Path.join(os.tmpdir(), `vscode-firefox-debug-firefox-${process.pid}.js`);
+			var output = executable + '.out';
+			fs.writeFileSync(executable, [
+				`#!${process.execPath}`,
+				`var fs = require('fs');`,
+				`var args = process.argv.slice(2);`,
+				`var userJs = fs.readFileSync(args[2] + '/user.js', 'utf8');`,
+				`fs.writeFileSync(${JSON.stringify(output + '.tmp')}, args.concat(['FOO=' + process.env.FOO, userJs]).join('\\n'));`,
+				`fs.renameSync(${JSON.stringify(output + '.tmp')}, ${JSON.stringify(output)});`,
+				`setTimeout(() => {}, 30000);`
+			].join('\n') + '\n');
+			fs.chmodSync(executable, '755');
+			var cleanUp = () => {
+				fs.unlinkSync(executable);
+				if (fs.existsSync(output)) {
+					fs.unlinkSync(output);
+				}
+			};
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true, runtimeExecutable: executable,
+					firefoxArgs: ['--devtools'], env: { FOO: 'bar' }, preferences: { 'test.pref': 42 } }),
+				dc.waitForEvent('stopped')
+			])).then(() => {
+				// stopping the session kills the script, it has to start first
+				return new Promise<void>((resolve) => {
+					var poll = () => fs.existsSync(output) ? resolve(undefined) : setTimeout(poll, 20);
+					poll();
+				});
+			}).then(() => {
+				return dc.disconnectRequest();
+			}).then(() => {
+				var lines = fs.readFileSync(output, 'utf8').split('\n');
+				var profileDir = lines[2];
+				assert.deepEqual(lines.slice(0, 2), ['--no-remote', '--profile']);
+				assert.deepEqual(lines.slice(5, 8), ['--devtools', pathToFileUrl(PROGRAM), 'FOO=bar']);
+				assert.ok(lines.indexOf('user_pref("test.pref", 42);') >= 0, lines.join('\n'));
+				assert.equal(fs.existsSync(profileDir), false);
+				cleanUp();
+			}, (e) => {
+				cleanUp();
+				throw e;
+			});
 		});
 	});
 
@@ -106,7 +214,9 @@ suite('Node Debug Adapter', () => {
 			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
 			const BREAKPOINT_LINE = 2;
 
-			return dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: BREAKPOINT_LINE } );
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => {
+				return dc.hitBreakpoint({ program: PROGRAM, port: port }, { path: PROGRAM, line: BREAKPOINT_LINE } );
+			});
 		});
 
 		test('hitting a lazy breakpoint should send a breakpoint event', () => {
@@ -114,18 +224,203 @@ suite('Node Debug Adapter', () => {
 			const PROGRAM = Path.join(DATA_ROOT, 'testLazyBreakpoint.md');
 			const BREAKPOINT_LINE = 3;
 
-			return Promise.all([
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5, undefined, true)).then(port => Promise.all([
 
-				dc.hitBreakpoint({ program: PROGRAM }, { path: PROGRAM, line: BREAKPOINT_LINE, verified: false } ),
+				dc.hitBreakpoint({ program: PROGRAM, port: port }, { path: PROGRAM, line: BREAKPOINT_LINE, verified: false } ),
 
 				dc.waitForEvent('breakpoint').then((event : DebugProtocol.BreakpointEvent ) => {
 					assert.equal(event.body.breakpoint.verified, true, "event mismatch: verified");
 				})
 
-			]);
+			]));
+
+		});
+
+		test('should replace the breakpoints of a file', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				dc.assertStoppedLocation('entry', { line: 1 })
+			])).then(() => {
+				return dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [{ line: 2 }, { line: 4 }] });
+			}).then(response => {
+				assert.deepEqual(response.body.breakpoints.map(bp => bp.verified), [true, true]);
+				return dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [{ line: 4 }] });
+			}).then(() => {
+				assert.deepEqual(firefox.breakpointLines(pathToFileUrl(PROGRAM)), [4]);
+				return Promise.all<any>([
+					dc.continueRequest({ threadId: 1 }),
+					dc.assertStoppedLocation('breakpoint', { line: 4 })
+				]);
+			});
+		});
+
+		test('should keep the breakpoints of the other files of a bundle', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+			const BUNDLE = Path.join(DATA_ROOT, 'bundle.js');
+			// bundle.js line 1 is a.js line 1, bundle.js line 2 is b.js line 1
+			var map = { version: 3, file: 'bundle.js', sources: ['a.js', 'b.js'], names: [], mappings: 'AAAA;ACAA' };
+			var program = linesProgram(pathToFileUrl(PROGRAM), 5);
+			program.scripts.push({ url: pathToFileUrl(BUNDLE),
+				sourceMapURL: 'data:application/json;base64,' + new Buffer(JSON.stringify(map)).toString('base64') });
+
+			return startFirefox(program).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				dc.assertStoppedLocation('entry', { line: 1 })
+			])).then(() => {
+				return dc.setBreakpointsRequest({ source: { path: Path.join(DATA_ROOT, 'a.js') }, breakpoints: [{ line: 1 }] });
+			}).then(() => {
+				return dc.setBreakpointsRequest({ source: { path: Path.join(DATA_ROOT, 'b.js') }, breakpoints: [{ line: 1 }] });
+			}).then(response => {
+				assert.equal(response.body.breakpoints[0].verified, true);
+				assert.deepEqual(firefox.breakpointLines(pathToFileUrl(BUNDLE)).sort(), [1, 2]);
+			});
+		});
+
+		test('should report breakpoints which are not set', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				dc.assertStoppedLocation('entry', { line: 1 })
+			])).then(() => {
+				return dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [{ line: 2 }] });
+			}).then(() => {
+				firefox.errors['delete'] = 'noSuchActor';
+				return dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [{ line: 4 }] }).then(() => {
+					throw new Error('does not report the error');
+				}, (e) => {
+					assert.ok(/^Cannot set the breakpoints: noSuchActor/.test(e.message), e.message);
+				});
+			}).then(() => {
+				// the thread is not held back by the failure
+				delete firefox.errors['delete'];
+				return Promise.all<any>([
+					dc.continueRequest({ threadId: 1 }),
+					dc.waitForEvent('stopped')
+				]);
+			});
+		});
+
+		test('should report the hit breakpoint in the stopped event', () => {
+
+			const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+			var breakpoints: DebugProtocol.Breakpoint[];
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all<any>([
+				launchWithBreakpoints(PROGRAM, port, [{ line: 2 }, { line: 3 }]),
+				dc.waitForEvent('stopped')
+			])).then(results => {
+				breakpoints = results[0].body.breakpoints;
+				var event: DebugProtocol.StoppedEvent = results[1];
+				assert.equal(event.body.reason, 'breakpoint');
+				assert.equal((<any>event.body).description, 'Paused on breakpoint');
+				assert.deepEqual((<any>event.body).hitBreakpointIds, [breakpoints[0].id]);
+				return Promise.all<any>([
+					dc.continueRequest({ threadId: 1 }),
+					dc.waitForEvent('stopped')
+				]);
+			}).then(results => {
+				var event: DebugProtocol.StoppedEvent = results[1];
+				assert.deepEqual((<any>event.body).hitBreakpointIds, [breakpoints[1].id]);
+			});
+		});
+
+	});
+
+	suite('conditional breakpoints', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+		// the values of i at the stops, the program runs to its end
+		function collectStops(breakpoint: DebugProtocol.SourceBreakpoint): Promise<string[]> {
+			var values: string[] = [];
+			var collected = new Promise<string[]>((resolve, reject) => {
+				dc.on('stopped', () => {
+					evaluateInTopFrame('i').then(value => {
+						values.push(value);
+						return dc.continueRequest({ threadId: 1 });
+					}).catch(reject);
+				});
+				dc.on('terminated', () => resolve(values));
+			});
+			return startFirefox(loopProgram(pathToFileUrl(PROGRAM), 4)).then(port => {
+				return launchWithBreakpoints(PROGRAM, port, [breakpoint]);
+			}).then(() => collected);
+		}
+
+		test('should stop only where the condition is true', () => {
+			return collectStops({ line: 2, condition: 'even' }).then(values => {
+				assert.deepEqual(values, ['2', '4']);
+				var request = firefox.received.filter(p => p.type === 'setBreakpoint')[0];
+				assert.equal(request.condition, 'even');
+			});
+		});
+
+		test('should skip the hits not matching the hit condition', () => {
+			return collectStops({ line: 2, hitCondition: '% 2' }).then(values => {
+				assert.deepEqual(values, ['2', '4']);
+			});
+		});
+
+		test('should stop from the given hit count on', () => {
+			return collectStops({ line: 2, hitCondition: '>= 3' }).then(values => {
+				assert.deepEqual(values, ['3', '4']);
+			});
+		});
+
+		test('should report an invalid hit condition', () => {
+			return startFirefox(loopProgram(pathToFileUrl(PROGRAM), 4)).then(port => {
+				return launchWithBreakpoints(PROGRAM, port, [{ line: 2, hitCondition: 'often' }]);
+			}).then(response => {
+				assert.ok(/Invalid hit condition 'often'/.test(response.body.breakpoints[0].message));
+			});
+		});
+	});
+
+	suite('logpoints', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
 
+		// the messages printed until the program runs to its end, it must not stop
+		function collectMessages(logpoint: DebugProtocol.SourceBreakpoint): Promise<DebugProtocol.OutputEvent[]> {
+			var messages: DebugProtocol.OutputEvent[] = [];
+			var collected = new Promise<DebugProtocol.OutputEvent[]>((resolve, reject) => {
+				dc.on('output', (event: DebugProtocol.OutputEvent) => {
+					if (event.body.source) {
+						messages.push(event);
+					}
+				});
+				dc.on('stopped', () => reject(new Error('stopped at a logpoint')));
+				dc.on('terminated', () => resolve(messages));
+			});
+			return startFirefox(loopProgram(pathToFileUrl(PROGRAM), 4)).then(port => {
+				return launchWithBreakpoints(PROGRAM, port, [logpoint]);
+			}).then(() => collected);
+		}
+
+		test('should print the interpolated message and go on', () => {
+			return collectMessages(<any>{ line: 2, logMessage: 'i = {i}, even: {even}' }).then(messages => {
+				assert.deepEqual(messages.map(m => m.body.output), [
+					'i = 1, even: false\n', 'i = 2, even: true\n', 'i = 3, even: false\n', 'i = 4, even: true\n'
+				]);
+				assert.equal(messages[0].body.source.path, PROGRAM);
+				assert.equal(messages[0].body.line, 2);
+			});
 		});
 
+		test('should print only the hits matching the hit condition', () => {
+			return collectMessages(<any>{ line: 2, logMessage: 'i = {i}', hitCondition: '% 2' }).then(messages => {
+				assert.deepEqual(messages.map(m => m.body.output), ['i = 2\n', 'i = 4\n']);
+			});
+		});
 	});
 
 	suite('setExceptionBreakpoints', () => {
@@ -135,7 +430,7 @@ suite('Node Debug Adapter', () => {
 			const PROGRAM_WITH_EXCEPTION = Path.join(DATA_ROOT, 'testWithException.md');
 			const EXCEPTION_LINE = 4;
 
-			return Promise.all([
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM_WITH_EXCEPTION), 5, EXCEPTION_LINE)).then(port => Promise.all([
 
 				dc.waitForEvent('initialized').then(event => {
 					return dc.setExceptionBreakpointsRequest({
@@ -145,10 +440,653 @@ suite('Node Debug Adapter', () => {
 					return dc.configurationDoneRequest();
 				}),
 
-				dc.launch({ program: PROGRAM_WITH_EXCEPTION }),
+				dc.launch({ program: PROGRAM_WITH_EXCEPTION, port: port }),
 
 				dc.assertStoppedLocation('exception', { line: EXCEPTION_LINE } )
-			]);
+			]));
+		});
+
+		test('should apply the settings to the running page', () => {
+
+			const PROGRAM_WITH_EXCEPTION = Path.join(DATA_ROOT, 'testWithException.md');
+			const URL = pathToFileUrl(PROGRAM_WITH_EXCEPTION);
+			const EXCEPTION_LINE = 4;
+
+			var program = linesProgram(URL, 5, EXCEPTION_LINE);
+			// the page is running line 2 when the exception breakpoints are set
+			program.steps[1].duration = 300;
+
+			return startFirefox(program).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM_WITH_EXCEPTION, port: port }),
+				firefox.waitForPacket('resume')
+			])).then(() => Promise.all<any>([
+				dc.setExceptionBreakpointsRequest({ filters: [ 'all' ] }),
+				firefox.waitForPacket('interrupt'),
+				dc.assertStoppedLocation('exception', { line: EXCEPTION_LINE })
+			])).then(() => {
+				var resumes = firefox.received.filter(p => p.type === 'resume');
+				// the first resume has no exception settings yet
+				assert.deepEqual(resumes.map(p => p.pauseOnExceptions), [undefined, true]);
+			});
+		});
+	});
+
+	suite('errors', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+		function stopOnEntry(): Promise<any> {
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true, requestTimeout: 200 }),
+				dc.waitForEvent('stopped')
+			]));
+		}
+
+		test('should report requests Firefox answers too late', () => {
+			return stopOnEntry().then(() => {
+				firefox.delays['frames'] = 300;
+				// only the first answer is delayed
+				firefox.waitForPacket('frames').then(() => {
+					firefox.delays['frames'] = 0;
+				});
+				return Promise.all<any>([
+					dc.stackTraceRequest({ threadId: 1 }).then(() => {
+						throw new Error('does not report the unanswered request');
+					}, (e) => {
+						assert.ok(/did not answer the 'frames' request/.test(e.message), e.message);
+					}),
+					// the late answer is dropped, the next request gets its own
+					dc.stackTraceRequest({ threadId: 1 })
+				]);
+			}).then(responses => {
+				assert.equal(responses[1].body.stackFrames[0].line, 1);
+			});
+		});
+
+		test('should not block the requests after one Firefox does not answer', () => {
+			return stopOnEntry().then(() => {
+				firefox.unanswered = ['frames'];
+				// the queued requests are sent when the first one times out, they fail in turn
+				return Promise.all([1, 2, 3].map((n) => dc.stackTraceRequest({ threadId: 1 }).then(() => {
+					throw new Error(`does not report the unanswered request ${n}`);
+				}, (e) => {
+					assert.ok(/did not answer the 'frames' request/.test(e.message), e.message);
+				})));
+			}).then(() => {
+				// other actors are not affected
+				return dc.threadsRequest();
+			}).then((response) => {
+				assert.equal(response.body.threads.length, 1);
+			});
+		});
+
+		test('should answer the requests after one Firefox did not answer', () => {
+			return stopOnEntry().then(() => {
+				firefox.unanswered = ['frames'];
+				// only the first request is not answered
+				firefox.waitForPacket('frames').then(() => {
+					firefox.unanswered = [];
+				});
+				return Promise.all<any>([
+					dc.stackTraceRequest({ threadId: 1 }).then(() => {
+						throw new Error('does not report the unanswered request');
+					}, (e) => {
+						assert.ok(/did not answer the 'frames' request/.test(e.message), e.message);
+					}),
+					dc.stackTraceRequest({ threadId: 1 })
+				]);
+			}).then(responses => {
+				assert.equal(responses[1].body.stackFrames[0].line, 1);
+				return dc.stackTraceRequest({ threadId: 1 });
+			}).then(response => {
+				assert.equal(response.body.stackFrames[0].line, 1);
+			});
+		});
+
+		test('should report evaluations which fail', () => {
+			return stopOnEntry().then(() => {
+				firefox.errors['clientEvaluate'] = 'notDebuggee';
+				return evaluateInTopFrame('1').then(() => {
+					throw new Error('does not report the failed evaluation');
+				}, (e) => {
+					assert.equal(e.message, 'Cannot evaluate: clientEvaluate failed');
+				});
+			}).then(() => {
+				return dc.evaluateRequest({ expression: '1', frameId: 9999 }).then(() => {
+					throw new Error('evaluates in an unknown frame');
+				}, (e) => {
+					assert.equal(e.message, 'Unknown frame');
+				});
+			});
+		});
+
+		test('should report the errors of requests after an evaluation', () => {
+			return stopOnEntry().then(() => {
+				return evaluateInTopFrame('1');
+			}).then(() => {
+				firefox.errors['frames'] = 'wrongState';
+				return dc.stackTraceRequest({ threadId: 1 }).then(() => {
+					throw new Error('does not report the error');
+				}, (e) => {
+					assert.ok(/frames failed/.test(e.message), e.message);
+				});
+			}).then(() => {
+				delete firefox.errors['frames'];
+				return evaluateInTopFrame('2');
+			}).then((result) => {
+				assert.equal(result, '2');
+			});
+		});
+
+		test('should report an invalid tabFilter before starting Firefox', () => {
+			return dc.launch({ program: PROGRAM, runtimeExecutable: Path.join(DATA_ROOT, 'missing-firefox'),
+				tabFilter: { url: '/[/' } }).then(() => {
+				throw new Error('launches with an invalid tabFilter');
+			}, (e) => {
+				assert.ok(/^Invalid tabFilter url regular expression \/\[\/: /.test(e.message), e.message);
+			});
+		});
+
+		test('should stop the session when Firefox does not answer', () => {
+			return stopOnEntry().then(() => {
+				firefox.unanswered = ['detach'];
+				return dc.disconnectRequest();
+			});
+		});
+	});
+
+	suite('restart', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+		test('should hit the breakpoints again after restarting', () => {
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => {
+				return dc.hitBreakpoint({ program: PROGRAM, port: port }, { path: PROGRAM, line: 3 });
+			}).then(() => Promise.all<any>([
+				dc.restartRequest({}),
+				dc.waitForEvent('continued'),
+				dc.assertStoppedLocation('breakpoint', { line: 3 })
+			])).then(() => {
+				// the breakpoint is set in the script of the new page only
+				assert.deepEqual(firefox.breakpointLines(pathToFileUrl(PROGRAM)), [3]);
+			});
+		});
+
+		test('should answer requests waiting for the previous page to pause', () => {
+			var program = linesProgram(pathToFileUrl(PROGRAM), 5);
+			// the page keeps running until it is restarted
+			program.steps[0].duration = 10000;
+			return startFirefox(program).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port }),
+				firefox.waitForPacket('resume')
+			])).then(() => {
+				firefox.unanswered = ['interrupt'];
+				var breakpointsSet = dc.setBreakpointsRequest({ source: { path: PROGRAM }, breakpoints: [{ line: 3 }] });
+				return firefox.waitForPacket('interrupt').then(() => {
+					firefox.unanswered = [];
+					program.steps[0].duration = 0;
+					return Promise.all<any>([breakpointsSet, dc.restartRequest({})]);
+				});
+			}).then(responses => {
+				assert.equal(responses[0].body.breakpoints.length, 1);
+				// the breakpoint is set in the script of the new page
+				return dc.assertStoppedLocation('breakpoint', { line: 3 });
+			});
+		});
+
+		test('should reload the page when a file changes', () => {
+			var root = Path.join(os.tmpdir(), `vscode-firefox-debug-reload-${process.pid}`);
+			var program = Path.join(root, 'index.html');
+			fs.mkdirSync(root);
+			fs.writeFileSync(program, '');
+			var cleanUp = () => {
+				fs.readdirSync(root).forEach((name) => fs.unlinkSync(Path.join(root, name)));
+				fs.rmdirSync(root);
+			};
+			return startFirefox(linesProgram(pathToFileUrl(program), 5)).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: program, port: port, stopOnEntry: true, reloadOnChange: true }),
+				dc.waitForEvent('stopped')
+			])).then(() => {
+				fs.writeFileSync(Path.join(root, 'app.js'), 'var a = 1;');
+				return dc.waitForEvent('continued');
+			}).then(() => {
+				assert.ok(firefox.received.some((packet) => packet.type === 'reload'));
+				cleanUp();
+			}, (e) => {
+				cleanUp();
+				throw e;
+			});
+		});
+	});
+
+	suite('sources', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+		const CDN_SCRIPT = 'https://cdn.example.com/lib.js';
+
+		test('should list the loaded sources and serve scripts without a local file', () => {
+			var program = linesProgram(pathToFileUrl(PROGRAM), 5);
+			program.scripts.push({ url: CDN_SCRIPT, text: 'var lib = 1;' });
+			var events: DebugProtocol.Event[] = [];
+			dc.on('loadedSource', (event) => events.push(event));
+			var cdnSource: DebugProtocol.Source;
+			return startFirefox(program).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				dc.waitForEvent('stopped')
+			])).then(() => {
+				return dc.customRequest('loadedSources');
+			}).then(response => {
+				var sources: DebugProtocol.Source[] = response.body.sources;
+				assert.deepEqual(sources.map(s => s.name), ['test.md', 'lib.js']);
+				assert.equal(sources[0].path, PROGRAM);
+				cdnSource = sources[1];
+				assert.ok(cdnSource.sourceReference > 0);
+				assert.deepEqual(events.map(e => `${e.body.reason} ${e.body.source.name}`), ['new test.md', 'new lib.js']);
+				return dc.sourceRequest({ sourceReference: cdnSource.sourceReference });
+			}).then(response => {
+				assert.equal(response.body.content, 'var lib = 1;');
+				return dc.sourceRequest({ sourceReference: cdnSource.sourceReference + 1 });
+			}).then(() => {
+				throw new Error('serves an unknown source');
+			}, (e) => {
+				assert.ok(/Unknown source/.test(e.message), e.message);
+			});
+		});
+
+		test('should answer concurrent requests to the same script', () => {
+			var program = linesProgram(pathToFileUrl(PROGRAM), 5);
+			program.scripts.push({ url: CDN_SCRIPT, text: 'var lib = 1;' });
+			return startFirefox(program).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true, requestTimeout: 500 }),
+				dc.waitForEvent('stopped')
+			])).then(() => {
+				return dc.customRequest('loadedSources');
+			}).then(response => {
+				var sourceReference = response.body.sources[1].sourceReference;
+				firefox.delays = { source: 50 };
+				return Promise.all([
+					dc.sourceRequest({ sourceReference: sourceReference }),
+					dc.sourceRequest({ sourceReference: sourceReference })
+				]);
+			}).then(responses => {
+				assert.deepEqual(responses.map(r => r.body.content), ['var lib = 1;', 'var lib = 1;']);
+			});
+		});
+
+		test('should blackbox the scripts matching skipFiles', () => {
+			var program = linesProgram(pathToFileUrl(PROGRAM), 5);
+			program.scripts.push({ url: CDN_SCRIPT });
+			return startFirefox(program).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true, skipFiles: ['https://cdn.example.com/**'] }),
+				dc.waitForEvent('stopped'),
+				// the packet may arrive after the event
+				firefox.waitForPacket('blackbox')
+			])).then(() => {
+				// the program's script is source0, the CDN script source1
+				assert.deepEqual(firefox.received.filter(p => p.type === 'blackbox').map(p => p.to), ['source1']);
+			});
+		});
+
+		test('should toggle skipping the file of a frame', () => {
+			var frameId: number;
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				dc.waitForEvent('stopped')
+			])).then(() => {
+				return dc.stackTraceRequest({ threadId: 1 });
+			}).then(response => {
+				frameId = response.body.stackFrames[0].id;
+				return dc.customRequest('toggleSkippingFile', { frameId: frameId });
+			}).then(response => {
+				assert.equal(response.body.skipped, true);
+				return dc.stackTraceRequest({ threadId: 1 });
+			}).then(response => {
+				assert.equal(response.body.stackFrames[0].presentationHint, 'subtle');
+				return dc.customRequest('toggleSkippingFile', { frameId: frameId });
+			}).then(response => {
+				assert.equal(response.body.skipped, false);
+				assert.deepEqual(firefox.received.filter(p => /blackbox$/.test(p.type)).map(p => p.type),
+					['blackbox', 'unblackbox']);
+				return dc.customRequest('toggleSkippingFile', { frameId: 9999 });
+			}).then(() => {
+				throw new Error('toggles skipping an unknown frame');
+			}, (e) => {
+				assert.ok(/Unknown frame/.test(e.message), e.message);
+			});
+		});
+	});
+
+	suite('workers', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+		const WORKER = Path.join(DATA_ROOT, 'testWorker.md');
+
+		function withWorker(worker: MockProgram): MockProgram {
+			var page = linesProgram(pathToFileUrl(PROGRAM), 5);
+			page.workers = [worker];
+			return page;
+		}
+
+		// the page stops on entry, its worker runs the lines of its own script
+		function startWithWorker(worker: MockProgram): Promise<any> {
+			return startFirefox(withWorker(worker)).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true })
+			]));
+		}
+
+		// resolves to the first event of the type which is accepted
+		function waitFor(eventType: string, accept: (event: any) => boolean): Promise<any> {
+			return new Promise<any>((resolve) => {
+				var listener = (event) => {
+					if (accept(event)) {
+						dc.removeListener(eventType, listener);
+						resolve(event);
+					}
+				};
+				dc.on(eventType, listener);
+			});
+		}
+
+		test('should announce the worker thread when it starts and ends', () => {
+			var events: string[] = [];
+			dc.on('thread', (event: DebugProtocol.ThreadEvent) => {
+				events.push(`${event.body.reason} ${event.body.threadId}`);
+			});
+			var workerStarted = waitFor('thread', (event) => event.body.reason === 'started' && event.body.threadId === 2);
+			var workerExited = waitFor('thread', (event) => event.body.reason === 'exited');
+			return Promise.all<any>([
+				startWithWorker(linesProgram(pathToFileUrl(WORKER), 4)),
+				workerStarted.then(() => workerExited)
+			]).then(() => {
+				assert.deepEqual(events, ['started 1', 'started 2', 'exited 2']);
+				return dc.threadsRequest();
+			}).then(response => {
+				assert.deepEqual(response.body.threads.map(t => t.id), [1]);
+			});
+		});
+
+		test('should stop at a breakpoint in the worker\'s script', () => {
+			var workerStopped = waitFor('stopped', (event) => event.body.threadId === 2);
+			return startFirefox(withWorker(linesProgram(pathToFileUrl(WORKER), 4))).then(port => Promise.all<any>([
+				dc.waitForEvent('initialized').then(() => {
+					return dc.setBreakpointsRequest({ source: { path: WORKER }, breakpoints: [{ line: 3 }] });
+				}).then(() => dc.configurationDoneRequest()),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				workerStopped
+			])).then(results => {
+				assert.equal(results[2].body.reason, 'breakpoint');
+				return Promise.all<any>([dc.stackTraceRequest({ threadId: 2 }), dc.threadsRequest()]);
+			}).then(responses => {
+				var frame = responses[0].body.stackFrames[0];
+				assert.equal(frame.source.path, WORKER);
+				assert.equal(frame.line, 3);
+				assert.deepEqual(responses[1].body.threads.map(t => t.name), ['main thread', 'Worker ' + pathToFileUrl(WORKER)]);
+				// the breakpoint is set in the worker's script only
+				assert.deepEqual(firefox.breakpointLines(pathToFileUrl(WORKER)), [3]);
+			});
+		});
+
+		test('should pause, step and resume the threads separately', () => {
+			var worker = linesProgram(pathToFileUrl(WORKER), 4);
+			// the worker runs line 2 until it is paused
+			worker.steps[1].duration = 1000;
+			return Promise.all<any>([
+				startWithWorker(worker),
+				waitFor('stopped', (event) => event.body.threadId === 1),
+				// the worker is resumed once it is attached
+				firefox.waitForPacket('resume')
+			]).then(() => Promise.all<any>([
+				dc.pauseRequest({ threadId: 2 }),
+				waitFor('stopped', (event) => event.body.threadId === 2)
+			])).then(results => {
+				assert.equal(results[1].body.reason, 'pause');
+				return Promise.all<any>([
+					dc.nextRequest({ threadId: 1 }),
+					dc.assertStoppedLocation('step', { line: 2 })
+				]);
+			}).then(() => {
+				return dc.stackTraceRequest({ threadId: 2 });
+			}).then(response => {
+				assert.equal(response.body.stackFrames[0].line, 2);
+				return Promise.all<any>([
+					dc.continueRequest({ threadId: 2 }),
+					waitFor('thread', (event) => event.body.reason === 'exited' && event.body.threadId === 2)
+				]);
+			}).then(() => {
+				return dc.stackTraceRequest({ threadId: 1 });
+			}).then(response => {
+				assert.equal(response.body.stackFrames[0].line, 2);
+				var resumed = firefox.received.filter(p => p.type === 'resume').map(p => p.to);
+				assert.deepEqual(resumed, ['thread2', 'thread1', 'thread2']);
+			});
+		});
+	});
+
+	suite('stepping', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+
+		function stopOnEntry(): Promise<any> {
+			return startFirefox(linesProgram(pathToFileUrl(PROGRAM), 5)).then(port => Promise.all([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port, stopOnEntry: true }),
+				dc.assertStoppedLocation('entry', { line: 1 })
+			]));
+		}
+
+		test('should step to the next line', () => {
+			return stopOnEntry().then(() => Promise.all<any>([
+				dc.nextRequest({ threadId: 1 }),
+				dc.assertStoppedLocation('step', { line: 2 })
+			])).then(() => Promise.all<any>([
+				dc.stepInRequest({ threadId: 1 }),
+				dc.assertStoppedLocation('step', { line: 3 })
+			])).then(() => {
+				assert.deepEqual(firefox.received.filter(p => p.type === 'resume').map(p => p.resumeLimit.type),
+					['next', 'step']);
+			});
+		});
+
+		test('should step out', () => {
+			return stopOnEntry().then(() => Promise.all<any>([
+				dc.stepOutRequest({ threadId: 1 }),
+				dc.assertStoppedLocation('step', { line: 2 })
+			]));
+		});
+
+		test('should not pause or resume an unknown thread', () => {
+			var requests = [
+				() => dc.pauseRequest({ threadId: 99 }),
+				() => dc.continueRequest({ threadId: 99 }),
+				() => dc.nextRequest({ threadId: 99 }),
+				() => dc.stepInRequest({ threadId: 99 }),
+				() => dc.stepOutRequest({ threadId: 99 })
+			];
+			return stopOnEntry().then(() => Promise.all(requests.map(request => request().then(() => {
+				throw new Error('answers the request of an unknown thread');
+			}, (e) => {
+				assert.ok(/Unknown thread/.test(e.message), e.message);
+			}))));
+		});
+
+		test('should pause the running page', () => {
+			var program = linesProgram(pathToFileUrl(PROGRAM), 5);
+			// the page runs line 2 until it is paused
+			program.steps[1].duration = 1000;
+			return startFirefox(program).then(port => Promise.all<any>([
+				dc.configurationSequence(),
+				dc.launch({ program: PROGRAM, port: port }),
+				firefox.waitForPacket('resume')
+			])).then(() => Promise.all<any>([
+				dc.pauseRequest({ threadId: 1 }),
+				dc.assertStoppedLocation('pause', { line: 2 })
+			])).then(() => Promise.all<any>([
+				dc.continueRequest({ threadId: 1 }),
+				dc.waitForEvent('terminated')
+			]));
+		});
+	});
+
+	suite('variables', () => {
+
+		const PROGRAM = Path.join(DATA_ROOT, 'test.md');
+		const URL = pathToFileUrl(PROGRAM);
+
+		// stops in f with the variables a, s and o (with the property b) and the given more ones
+		function stopInFunction(variables: any = {}, properties: any = {}): Promise<number> {
+			var program: MockProgram = {
+				url: URL,
+				scripts: [{ url: URL }],
+				steps: [
+					{ url: URL, line: 1 },
+					{ url: URL, line: 2, functionName: 'f', variables: {
+						a: 1,
+						s: 'x',
+						o: { type: 'object', class: 'Object', actor: 'object1' }
+					}}
+				],
+				objects: { object1: { b: true } }
+			};
+			Object.keys(variables).forEach(name => program.steps[1].variables[name] = variables[name]);
+			Object.keys(properties).forEach(name => program.objects.object1[name] = properties[name]);
+			return startFirefox(program).then(port => {
+				return dc.hitBreakpoint({ program: PROGRAM, port: port }, { path: PROGRAM, line: 2 });
+			}).then(() => {
+				return dc.stackTraceRequest({ threadId: 1 });
+			}).then(response => {
+				var frame = response.body.stackFrames[0];
+				assert.equal(frame.name, 'f(0)');
+				return frame.id;
+			});
+		}
+
+		test('should list the scopes of a frame', () => {
+			return stopInFunction().then(frameId => {
+				return dc.scopesRequest({ frameId: frameId });
+			}).then(response => {
+				assert.deepEqual(response.body.scopes.map(scope => scope.name), ['Local', 'Global']);
+			});
+		});
+
+		test('should list and expand variables', () => {
+			return stopInFunction().then(frameId => {
+				return dc.scopesRequest({ frameId: frameId });
+			}).then(response => {
+				return dc.variablesRequest({ variablesReference: response.body.scopes[0].variablesReference });
+			}).then(response => {
+				var variables = response.body.variables;
+				assert.deepEqual(variables.map(v => `${v.name}=${v.value}`), ['a=1', 's="x"', 'o={…}']);
+				return dc.variablesRequest({ variablesReference: variables[2].variablesReference });
+			}).then(response => {
+				var variable = response.body.variables[0];
+				assert.equal(`${variable.name}=${variable.value}`, 'b=true');
+			});
+		});
+
+		test('should evaluate expressions in a frame and globally', () => {
+			var frameId: number;
+			return stopInFunction().then(id => {
+				frameId = id;
+				return dc.evaluateRequest({ expression: 'a', frameId: frameId });
+			}).then(response => {
+				assert.equal(response.body.result, '1');
+				return dc.evaluateRequest({ expression: 'o', frameId: frameId });
+			}).then(response => {
+				assert.ok(response.body.variablesReference > 0);
+				return dc.evaluateRequest({ expression: 'c' });
+			}).then(response => {
+				assert.equal(response.body.result, '(error: "ReferenceError: c is not defined")');
+			});
+		});
+
+		test('should complete the variables of a frame and properties', () => {
+			var frameId: number;
+			var g = { type: 'object', class: 'Function', actor: 'object2', name: 'g' };
+			var m = { type: 'object', class: 'Function', actor: 'object3', name: 'm' };
+			return stopInFunction({ g: g }, { m: m }).then(id => {
+				frameId = id;
+				return dc.completionsRequest({ text: 'x = o', column: 6, frameId: frameId });
+			}).then(response => {
+				assert.deepEqual(response.body.targets, [{ label: 'o', type: 'variable', start: 5, length: 1 }]);
+				var request = firefox.received.filter(p => p.type === 'autocomplete')[0];
+				assert.equal(request.cursor, 5);
+				assert.ok(request.frameActor, 'completes in the frame');
+				return dc.completionsRequest({ text: 'o.', column: 3, frameId: frameId });
+			}).then(response => {
+				assert.deepEqual(response.body.targets.map(t => `${t.label}:${t.type}`), ['b:property', 'm:function']);
+				return dc.completionsRequest({ text: '', column: 1, frameId: frameId });
+			}).then(response => {
+				assert.deepEqual(response.body.targets.map(t => `${t.label}:${t.type}`),
+					['a:variable', 's:variable', 'o:variable', 'g:function']);
+				// calls are not evaluated to look up the types of the properties
+				var evaluations = firefox.received.filter(p => p.type === 'clientEvaluate').length;
+				return dc.completionsRequest({ text: 'f().', column: 5, frameId: frameId }).then(() => {
+					assert.equal(firefox.received.filter(p => p.type === 'clientEvaluate').length, evaluations);
+				});
+			});
+		});
+
+		test('should set a variable in its scope', () => {
+			var scopes: DebugProtocol.Scope[];
+			return stopInFunction().then(frameId => {
+				return dc.scopesRequest({ frameId: frameId });
+			}).then(response => {
+				scopes = response.body.scopes;
+				return dc.setVariableRequest({ variablesReference: scopes[0].variablesReference, name: 'a', value: '2' });
+			}).then(response => {
+				assert.equal(response.body.value, '2');
+				assert.ok(firefox.received.some(p => p.type === 'clientEvaluate' && p.expression === 'a = (2)'));
+				return dc.variablesRequest({ variablesReference: scopes[0].variablesReference });
+			}).then(response => {
+				assert.equal(response.body.variables[0].value, '2');
+				return dc.setVariableRequest({ variablesReference: scopes[1].variablesReference, name: 'g', value: '"y"' });
+			}).then(response => {
+				assert.equal(response.body.value, '"y"');
+			});
+		});
+
+		test('should set a property of an evaluated object without evaluating it again', () => {
+			return stopInFunction().then(frameId => {
+				return dc.evaluateRequest({ expression: 'o', frameId: frameId });
+			}).then(response => {
+				return dc.setVariableRequest({ variablesReference: response.body.variablesReference, name: 'b', value: 'a' });
+			}).then(response => {
+				assert.equal(response.body.value, '1');
+				var assignment = firefox.received.filter(p => p.type === 'evaluateJS')[0];
+				assert.equal(assignment.text, '_self["b"] = (a)');
+				assert.equal(assignment.bindObjectActor, 'object1');
+				assert.ok(assignment.frameActor, 'evaluates the value in the frame');
+				assert.equal(firefox.received.filter(p => p.type === 'clientEvaluate').length, 1);
+			});
+		});
+
+		test('should not set a variable shadowed by an inner scope', () => {
+			return stopInFunction().then(frameId => {
+				return dc.scopesRequest({ frameId: frameId });
+			}).then(response => {
+				// the assignment in the frame would change the local variable a
+				return dc.setVariableRequest({ variablesReference: response.body.scopes[1].variablesReference,
+					name: 'a', value: '2' });
+			}).then(() => {
+				throw new Error('sets the shadowed variable');
+			}, (e) => {
+				assert.ok(/shadowed/.test(e.message), e.message);
+				assert.ok(!firefox.received.some(p => p.type === 'clientEvaluate'));
+				return dc.setVariableRequest({ variablesReference: 9999, name: 'a', value: '2' });
+			}).then(() => {
+				throw new Error('sets a variable of an unknown reference');
+			}, (e) => {
+				assert.ok(/Unknown variables reference/.test(e.message), e.message);
+			});
 		});
 	});
 });
\ No newline at end of file
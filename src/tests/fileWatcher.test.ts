@@ -0,0 +1,108 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {FileWatcher} from '../ffFileWatcher';
+
+suite('File Watcher', () => {
+
+	let root: string;
+	let watcher: FileWatcher;
+
+	function remove(file: string): void {
+		if (fs.statSync(file).isDirectory()) {
+			fs.readdirSync(file).forEach((name) => remove(path.join(file, name)));
+			fs.rmdirSync(file);
+		} else {
+			fs.unlinkSync(file);
+		}
+	}
+
+	setup(() => {
+		root = path.join(os.tmpdir(), `vscode-firefox-debug-watch-${process.pid}`);
+		fs.mkdirSync(root);
+	});
+
+	teardown(() => {
+		if (watcher) {
+			watcher.close();
+			watcher = null;
+		}
+		remove(root);
+	});
+
+	test('should report the changed files once they settle', () => {
+		var reports: string[][] = [];
+		return new Promise<void>((resolve) => {
+			watcher = new FileWatcher(root, (paths) => {
+				reports.push(paths);
+				resolve(undefined);
+			}, 50);
+			fs.writeFileSync(path.join(root, '.app.js.swp'), '');
+			fs.writeFileSync(path.join(root, 'app.js'), 'var a;');
+			fs.writeFileSync(path.join(root, 'index.html'), '<script src="app.js"></script>');
+			fs.writeFileSync(path.join(root, 'app.js'), 'var a = 1;');
+		}).then(() => {
+			assert.equal(reports.length, 1);
+			assert.deepEqual(reports[0].sort(), ['app.js', 'index.html']);
+		});
+	});
+
+	test('should not watch ignored directories', () => {
+		fs.mkdirSync(path.join(root, 'node_modules'));
+		fs.mkdirSync(path.join(root, 'dist'));
+		var reports: string[][] = [];
+		return new Promise<void>((resolve) => {
+			watcher = new FileWatcher(root, (paths) => {
+				reports.push(paths);
+				resolve(undefined);
+			}, 50);
+			fs.writeFileSync(path.join(root, 'node_modules', 'lib.js'), 'var l;');
+			fs.writeFileSync(path.join(root, 'dist', 'app.js'), 'var a;');
+		}).then(() => {
+			assert.deepEqual(reports, [[path.join('dist', 'app.js')]]);
+			watcher.close();
+			return new Promise<void>((resolve) => {
+				watcher = new FileWatcher(root, (paths) => {
+					reports.push(paths);
+					resolve(undefined);
+				}, 50, ['dist']);
+				fs.writeFileSync(path.join(root, 'dist', 'app.js'), 'var a = 1;');
+				fs.writeFileSync(path.join(root, 'node_modules', 'lib.js'), 'var l = 1;');
+			});
+		}).then(() => {
+			assert.deepEqual(reports[1], [path.join('node_modules', 'lib.js')]);
+		});
+	});
+
+	test('should report the changed files in subdirectories', () => {
+		fs.mkdirSync(path.join(root, 'lib'));
+		var onReport: (paths: string[]) => void;
+		var nextReport = () => new Promise<string[]>((resolve) => {
+			onReport = resolve;
+		});
+		watcher = new FileWatcher(root, (paths) => onReport(paths), 50);
+		var report = nextReport();
+		fs.writeFileSync(path.join(root, 'lib', 'util.js'), 'var u;');
+		return report.then((paths) => {
+			assert.deepEqual(paths, [path.join('lib', 'util.js')]);
+			report = nextReport();
+			fs.mkdirSync(path.join(root, 'lib', 'vendor'));
+			return report;
+		}).then((paths) => {
+			assert.deepEqual(paths, [path.join('lib', 'vendor')]);
+			// the new directory is watched as well
+			report = nextReport();
+			fs.writeFileSync(path.join(root, 'lib', 'vendor', 'dep.js'), 'var d;');
+			return report;
+		}).then((paths) => {
+			assert.deepEqual(paths, [path.join('lib', 'vendor', 'dep.js')]);
+		});
+	});
+});
@@ -0,0 +1,70 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import {formatGrip, gripToText, formatMessage, formatTable} from '../ffGrip';
+
+suite('Grip Formatting', () => {
+
+	test('should format primitives', () => {
+		assert.equal(formatGrip(1), '1');
+		assert.equal(formatGrip('x'), '"x"');
+		assert.equal(formatGrip({type: 'undefined'}), 'undefined');
+		assert.equal(formatGrip({type: 'symbol', name: 'foo'}), 'Symbol(foo)');
+	});
+
+	test('should format arrays and objects from their previews', () => {
+		assert.equal(formatGrip({type: 'object', class: 'Array',
+			preview: {kind: 'ArrayLike', length: 3, items: [1, 2, {type: 'object', class: 'Object'}]}}),
+			'Array(3) [1, 2, {…}]');
+		assert.equal(formatGrip({type: 'object', class: 'Object',
+			preview: {kind: 'Object', ownPropertiesLength: 3,
+				ownProperties: {a: {value: 1}, b: {value: 'x'}}}}),
+			'{a: 1, b: "x", …}');
+	});
+
+	test('should format functions, dates, regexps and errors', () => {
+		assert.equal(formatGrip({type: 'object', class: 'Function', name: 'foo', parameterNames: ['a', 'b']}),
+			'function foo(a, b)');
+		assert.equal(formatGrip({type: 'object', class: 'Date', preview: {timestamp: 0}}),
+			'Date 1970-01-01T00:00:00.000Z');
+		assert.equal(formatGrip({type: 'object', class: 'RegExp', displayString: '/x/g'}), 'RegExp /x/g');
+		assert.equal(formatGrip({type: 'object', class: 'Error',
+			preview: {kind: 'Error', name: 'TypeError', message: 'oops'}}), 'TypeError: oops');
+	});
+
+	test('should mark long strings as truncated', () => {
+		var grip = {type: 'longString', actor: 'conn0.longString1', initial: 'abc', length: 50000};
+		assert.equal(formatGrip(grip), '"abc…" (50000 characters)');
+		assert.equal(gripToText(grip), 'abc…');
+	});
+
+	test('should format maps', () => {
+		assert.equal(formatGrip({type: 'object', class: 'Map',
+			preview: {kind: 'MapLike', size: 2, entries: [['a', 1], ['b', {type: 'null'}]]}}),
+			'Map(2) {"a" → 1, "b" → null}');
+	});
+
+	test('should apply format specifiers of console messages', () => {
+		var object = {type: 'object', class: 'Object', preview: {kind: 'Object', ownProperties: {a: {value: 1}}}};
+		assert.equal(formatMessage(['%s has %d items, %c%o', 'list', 3.7, 'color: red', object, 'rest']),
+			'list has 3 items, {a: 1} rest');
+		assert.equal(formatMessage([1, 'a', {type: 'null'}]), '1 a null');
+		assert.equal(formatMessage(['100%%']), '100%');
+	});
+
+	test('should format tables', () => {
+		var row = (a, b) => ({type: 'object', class: 'Object',
+			preview: {kind: 'Object', ownProperties: {a: {value: a}, b: {value: b}}}});
+		var table = {type: 'object', class: 'Array',
+			preview: {kind: 'ArrayLike', length: 2, items: [row(1, 'x'), row(22, 'y')]}};
+		assert.equal(formatTable(table), [
+			'(index) | a  | b',
+			'0       | 1  | "x"',
+			'1       | 22 | "y"'
+		].join('\n'));
+	});
+});
@@ -0,0 +1,573 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import {FirefoxProtocol} from '../ffProtocol';
+
+import {createServer, Server, Socket} from 'net';
+
+// milliseconds after navigating until the scripts of the page run
+const PageLoadDelay: number = 100;
+// nsIWorkerDebugger.TYPE_DEDICATED
+const DedicatedWorkerType: number = 0;
+
+export interface MockScript {
+	url: string;
+	text?: string;
+	// announced with 'newSource' while the thread's sources are listed
+	lazy?: boolean;
+	sourceMapURL?: string;
+}
+
+/**
+ * A statement of the mock program, the thread pauses before executing it.
+ */
+export interface MockStep {
+	url: string;
+	line: number;
+	// the callee of the frame, steps without a function run in the global frame
+	functionName?: string;
+	// grips of the frame's local variables
+	variables?: any;
+	// the grip of the exception thrown by the statement
+	exception?: any;
+	// milliseconds the statement runs, the thread can be interrupted meanwhile
+	duration?: number;
+}
+
+export interface MockProgram {
+	url: string;
+	title?: string;
+	scripts: MockScript[];
+	steps: MockStep[];
+	// the properties of the object grips by their actor
+	objects?: any;
+	// the programs of the page's dedicated workers, their url is the URL of the worker's script
+	workers?: MockProgram[];
+}
+
+/**
+ * Returns a program running the lines of a single script.
+ */
+export function linesProgram(url: string, lineCount: number, exceptionLine?: number, lazy?: boolean): MockProgram {
+	var steps: MockStep[] = [];
+	for (var line = 1; line <= lineCount; line++) {
+		steps.push({url: url, line: line, exception: line === exceptionLine ? 'oops' : undefined});
+	}
+	return {url: url, scripts: [{url: url, lazy: lazy}], steps: steps};
+}
+
+/**
+ * Returns a program running line 2 of a single script in a loop, the local
+ * variable i counts the iterations from 1 and even tells if i is even.
+ */
+export function loopProgram(url: string, iterations: number): MockProgram {
+	var steps: MockStep[] = [{url: url, line: 1}];
+	for (var i = 1; i <= iterations; i++) {
+		steps.push({url: url, line: 2, variables: {i: i, even: i % 2 === 0}});
+	}
+	steps.push({url: url, line: 3});
+	return {url: url, scripts: [{url: url}], steps: steps};
+}
+
+function sourceForm(actor: string, script: MockScript): any {
+	return {actor: actor, url: script.url, sourceMapURL: script.sourceMapURL};
+}
+
+/**
+ * The page's thread or the thread of a worker, it runs the steps of its program.
+ */
+class MockThread {
+	// maps from source actor to script
+	public sources: any;
+	// the step the thread is paused at, the program's length once it ran to the end
+	public position: number;
+	public pauseOnExceptions: boolean;
+	// the step whose exception was paused at, it is thrown when resuming
+	public thrownAt: number;
+	// set while a navigated page is loading or a statement runs, the thread runs on when it expires
+	public runTimer: NodeJS.Timer;
+	// the step whose statement ran for its duration already
+	public waitedAt: number;
+
+	/**
+	 * The worker actor is null for the page's thread.
+	 */
+	public constructor(public actor: string, public program: MockProgram, public workerActor: string) {
+		this.sources = Object.create(null);
+		this.pauseOnExceptions = false;
+		this.runTimer = null;
+		this.restart();
+	}
+
+	public restart(): void {
+		clearTimeout(this.runTimer);
+		this.runTimer = null;
+		this.position = 0;
+		this.thrownAt = -1;
+		this.waitedAt = -1;
+	}
+
+	public isFinished(): boolean {
+		return this.position >= this.program.steps.length;
+	}
+
+	public currentVariables(): any {
+		return (!this.isFinished() && this.program.steps[this.position].variables) || {};
+	}
+}
+
+/**
+ * Plays the Firefox debugger server for a single connection. The page's thread runs
+ * the steps of the program, it pauses on attaching, at breakpoints, after stepping
+ * and on exceptions. Once the program ran to its end the connection is closed like
+ * when the browser is closed. Navigating loads the program again, its scripts run
+ * shortly after they are announced unless the thread is interrupted. The workers
+ * run their programs in their own threads and are closed at their ends.
+ */
+export class MockFirefox extends FirefoxProtocol {
+	private _server: Server;
+	private _program: MockProgram;
+	private _page: MockThread;
+	// maps from thread actor to MockThread, closed workers included
+	private _threads: any;
+	// maps from worker actor to the MockThread of the running worker
+	private _workers: any;
+	private _nextSource: number;
+	// maps from breakpoint actor to its source actor, line and condition
+	private _breakpoints: any;
+	private _nextBreakpoint: number;
+
+	// the packets received from the adapter
+	public received: any[];
+	// the types of the packets which are not answered, like by a hanging Firefox
+	public unanswered: string[];
+	// the delays in ms of the answers by packet type, like by a slow Firefox
+	public delays: any;
+	// the errors (e.g. 'wrongState') which answer packets by type
+	public errors: any;
+	// the answers are sent in order, later ones wait for the delayed answers
+	private _delayedAnswers: number;
+	private _lastDelayedAnswer: Promise<void>;
+	private _packetWaiters: Array<{type: string, resolve: (packet: any) => void}>;
+
+	/**
+	 * Returns the completion value of an expression ({return} or {throw}), by
+	 * default the local variables of the paused frame and JSON values can be
+	 * evaluated and assigned to a variable with 'name = (value)'.
+	 */
+	public evaluate: (expression: string, variables: any) => any;
+
+	public constructor(program: MockProgram) {
+		super();
+		this._program = program;
+		this._threads = Object.create(null);
+		this._workers = Object.create(null);
+		this._nextSource = 0;
+		this._page = this.addThread('thread1', program, null);
+		(program.workers || []).forEach((worker, index) => {
+			var workerActor = 'worker' + (index + 1);
+			this._workers[workerActor] = this.addThread('thread' + (index + 2), worker, workerActor);
+		});
+		this._breakpoints = Object.create(null);
+		this._nextBreakpoint = 1;
+		this.received = [];
+		this.unanswered = [];
+		this.delays = Object.create(null);
+		this.errors = Object.create(null);
+		this._delayedAnswers = 0;
+		this._lastDelayedAnswer = Promise.resolve<void>();
+		this._packetWaiters = [];
+		this.evaluate = (expression, variables) => {
+			var assignment = /^([\w$]+) = \((.*)\)$/.exec(expression);
+			if (assignment) {
+				var completion = this.evaluate(assignment[2], variables);
+				if ('return' in completion) {
+					variables[assignment[1]] = completion.return;
+				}
+				return completion;
+			}
+			if (expression in variables) {
+				return {return: variables[expression]};
+			}
+			try {
+				return {return: JSON.parse(expression)};
+			} catch (e) {
+				return {throw: `ReferenceError: ${expression} is not defined`};
+			}
+		};
+	}
+
+	/**
+	 * Resolves to the port to connect to.
+	 */
+	public start(): Promise<number> {
+		return new Promise<number>((resolve, reject) => {
+			this._server = createServer((socket: Socket) => {
+				this._server.close();
+				this.setupSocket(socket);
+				this.sendResponse({from: 'root', applicationType: 'browser', traits: {}});
+			});
+			this._server.on('error', reject);
+			this._server.listen(0, 'localhost', undefined, () => {
+				resolve(this._server.address().port);
+			});
+		});
+	}
+
+	public stop(): void {
+		Object.keys(this._threads).forEach((actor) => {
+			clearTimeout(this._threads[actor].runTimer);
+		});
+		this._server.close();
+		this.disconnect();
+	}
+
+	/**
+	 * Returns the lines of the breakpoints set in the script.
+	 */
+	public breakpointLines(url: string): number[] {
+		return Object.keys(this._breakpoints).filter((actor) => {
+			return this.findScript(this._breakpoints[actor].source).url === url;
+		}).map((actor) => this._breakpoints[actor].line);
+	}
+
+	/**
+	 * Resolves to the next packet of the type received from the adapter.
+	 */
+	public waitForPacket(type: string): Promise<any> {
+		return new Promise<any>((resolve) => {
+			this._packetWaiters.push({type: type, resolve: resolve});
+		});
+	}
+
+	protected onExecuteCommand(body: any): void {
+		this.received.push(body);
+		this._packetWaiters = this._packetWaiters.filter((waiter) => {
+			if (waiter.type !== body.type) {
+				return true;
+			}
+			waiter.resolve(body);
+			return false;
+		});
+		if (this.unanswered.indexOf(body.type) >= 0) {
+			return;
+		}
+		if (this.delays[body.type] || this._delayedAnswers > 0) {
+			var delay = this.delays[body.type] || 0;
+			this._delayedAnswers++;
+			this._lastDelayedAnswer = this._lastDelayedAnswer.then(() => new Promise<void>((resolve) => {
+				setTimeout(resolve, delay);
+			})).then(() => {
+				this._delayedAnswers--;
+				this.answer(body);
+			});
+		} else {
+			this.answer(body);
+		}
+	}
+
+	private addThread(actor: string, program: MockProgram, workerActor: string): MockThread {
+		var thread = new MockThread(actor, program, workerActor);
+		program.scripts.forEach((script) => {
+			thread.sources['source' + this._nextSource++] = script;
+		});
+		this._threads[actor] = thread;
+		return thread;
+	}
+
+	// returns the script of a source actor of any thread
+	private findScript(sourceActor: string): MockScript {
+		var scripts = Object.keys(this._threads).map((actor) => this._threads[actor].sources[sourceActor]);
+		return scripts.filter((script) => !!script)[0] || null;
+	}
+
+	private answer(body: any): void {
+		var reply = (packet: any) => {
+			packet.from = body.to;
+			this.sendResponse(packet);
+		};
+		if (this.errors[body.type]) {
+			reply({error: this.errors[body.type], message: `${body.type} failed`});
+			return;
+		}
+		// the environments of a frame are the local and the global scope of its thread
+		var environment = /^(.*)\/environment([01])$/.exec(body.to);
+		if (body.to === 'root') {
+			this.processRootPacket(body, reply);
+		} else if (body.to === 'tab1') {
+			this.processTabPacket(body, reply);
+		} else if (body.to === 'console1') {
+			this.processConsolePacket(body, reply);
+		} else if (this._threads[body.to]) {
+			this.processThreadPacket(this._threads[body.to], body, reply);
+		} else if (this._workers[body.to]) {
+			this.processWorkerPacket(this._workers[body.to], body, reply);
+		} else if (this.findScript(body.to)) {
+			this.processSourcePacket(body, reply);
+		} else if (this._breakpoints[body.to] && body.type === 'delete') {
+			delete this._breakpoints[body.to];
+			reply({});
+		} else if (environment && this._threads[environment[1]] && body.type === 'bindings') {
+			var variables = environment[2] === '1' ? this._threads[environment[1]].currentVariables() : {};
+			var bindings = Object.create(null);
+			Object.keys(variables).forEach((name) => {
+				bindings[name] = {value: variables[name]};
+			});
+			reply({bindings: {arguments: [], variables: bindings}});
+		} else if (this.objects[body.to] && body.type === 'prototypeAndProperties') {
+			var properties = this.objects[body.to];
+			var ownProperties = Object.create(null);
+			Object.keys(properties).forEach((name) => {
+				ownProperties[name] = {value: properties[name]};
+			});
+			reply({ownProperties: ownProperties, prototype: {type: 'null'}});
+		} else {
+			reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+		}
+	}
+
+	private processRootPacket(body: any, reply: (packet: any) => void): void {
+		switch (body.type) {
+			case 'listTabs':
+				reply({tabs: [{actor: 'tab1', consoleActor: 'console1', url: this._program.url,
+					title: this._program.title || ''}]});
+				return;
+		}
+		reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+	}
+
+	private processTabPacket(body: any, reply: (packet: any) => void): void {
+		switch (body.type) {
+			case 'attach':
+				reply({type: 'tabAttached', threadActor: this._page.actor});
+				return;
+			case 'detach':
+				reply({type: 'detached'});
+				return;
+			case 'listWorkers':
+				reply({workers: Object.keys(this._workers).map((actor) => {
+					return {actor: actor, url: this._workers[actor].program.url, type: DedicatedWorkerType};
+				})});
+				return;
+			case 'reload':
+			case 'navigateTo':
+				reply({});
+				this.navigate(body.url || this._program.url);
+				return;
+		}
+		reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+	}
+
+	private processWorkerPacket(thread: MockThread, body: any, reply: (packet: any) => void): void {
+		switch (body.type) {
+			case 'attach':
+				reply({type: 'attached', url: thread.program.url});
+				return;
+			case 'connect':
+				reply({type: 'connected', threadActor: thread.actor});
+				return;
+		}
+		reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+	}
+
+	private processConsolePacket(body: any, reply: (packet: any) => void): void {
+		switch (body.type) {
+			case 'startListeners':
+				reply({startedListeners: body.listeners});
+				return;
+			case 'getCachedMessages':
+				reply({messages: []});
+				return;
+			case 'evaluateJS':
+				// the properties of a bound object are assigned by '_self["name"] = (value)'
+				var property = body.bindObjectActor && /^_self\[(".*")\] = \((.*)\)$/.exec(body.text);
+				var completion = this.evaluate(property ? property[2] : body.text, this._page.currentVariables());
+				if (property && 'return' in completion) {
+					this.objects[body.bindObjectActor][JSON.parse(property[1])] = completion.return;
+				}
+				reply({input: body.text, result: completion.return, exception: completion.throw});
+				return;
+			case 'autocomplete':
+				var beforeCursor = body.text.substring(0, body.cursor);
+				var prefix = /[\w$]*$/.exec(beforeCursor)[0];
+				// the properties of an object variable are completed after its name and a dot
+				var object = /([\w$]+)\.[\w$]*$/.exec(beforeCursor);
+				var variables = this._page.currentVariables();
+				var grip = object ? variables[object[1]] : null;
+				var candidates = !object ? variables : (grip && grip.type === 'object' && this.objects[grip.actor]) || {};
+				var names = Object.keys(candidates).filter((name) => name.indexOf(prefix) === 0);
+				reply({matches: names, matchProp: prefix});
+				return;
+		}
+		reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+	}
+
+	private processThreadPacket(thread: MockThread, body: any, reply: (packet: any) => void): void {
+		switch (body.type) {
+			case 'attach':
+				this.pause(thread, {type: 'attached'});
+				return;
+			case 'sources':
+				// the notifications precede the answer, the thread is still paused when they arrive
+				Object.keys(thread.sources).filter((actor) => thread.sources[actor].lazy).forEach((actor) => {
+					reply({type: 'newSource', source: sourceForm(actor, thread.sources[actor])});
+				});
+				reply({sources: Object.keys(thread.sources).filter((actor) => !thread.sources[actor].lazy)
+					.map((actor) => sourceForm(actor, thread.sources[actor]))});
+				return;
+			case 'frames':
+				var frames = thread.isFinished() ? [] : [this.currentFrame(thread)];
+				reply({frames: frames.slice(body.startFrame || 0, (body.startFrame || 0) + (body.count || frames.length))});
+				return;
+			case 'interrupt':
+				if (thread.runTimer) {
+					clearTimeout(thread.runTimer);
+					thread.runTimer = null;
+					this.pause(thread, {type: 'interrupted'});
+					return;
+				}
+				this.pause(thread, {type: 'alreadyPaused'});
+				return;
+			case 'clientEvaluate':
+				reply({type: 'resumed'});
+				this.pause(thread, {type: 'clientEvaluated',
+					frameFinished: this.evaluate(body.expression, thread.currentVariables())});
+				return;
+			case 'resume':
+				if (body.pauseOnExceptions !== undefined) {
+					thread.pauseOnExceptions = body.pauseOnExceptions;
+				}
+				reply({type: 'resumed'});
+				this.run(thread, body.resumeLimit ? body.resumeLimit.type : undefined);
+				return;
+		}
+		reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+	}
+
+	private processSourcePacket(body: any, reply: (packet: any) => void): void {
+		switch (body.type) {
+			case 'setBreakpoint':
+				var actor = 'breakpoint' + this._nextBreakpoint++;
+				this._breakpoints[actor] = {source: body.to, line: body.location.line, condition: body.condition};
+				reply({actor: actor, actualLocation: {line: body.location.line}});
+				return;
+			case 'source':
+				reply({source: this.findScript(body.to).text || ''});
+				return;
+			case 'blackbox':
+			case 'unblackbox':
+				reply({});
+				return;
+		}
+		reply({error: 'unrecognizedPacketType', message: `unexpected packet ${body.type}`});
+	}
+
+	private get objects(): any {
+		return this._program.objects || {};
+	}
+
+	private currentFrame(thread: MockThread): any {
+		var step = thread.program.steps[thread.position];
+		var actor = Object.keys(thread.sources).filter((actor) => thread.sources[actor].url === step.url)[0];
+		var global = {actor: thread.actor + '/environment0'};
+		return {
+			actor: thread.actor + '/frame1',
+			type: step.functionName ? 'call' : 'global',
+			callee: step.functionName ? {type: 'object', class: 'Function', name: step.functionName} : undefined,
+			where: {source: {actor: actor, url: step.url}, line: step.line, column: 0},
+			environment: step.functionName ? {actor: thread.actor + '/environment1', parent: global} : global
+		};
+	}
+
+	// the scripts of the new page get new source actors, their breakpoints are gone
+	private navigate(url: string): void {
+		var thread = this._page;
+		var oldSources = thread.sources;
+		thread.restart();
+		this.sendResponse({from: thread.actor, type: 'resumed'});
+		this.sendResponse({from: 'tab1', type: 'tabNavigated', state: 'start', url: url});
+		Object.keys(this._breakpoints).forEach((actor) => {
+			if (oldSources[this._breakpoints[actor].source]) {
+				delete this._breakpoints[actor];
+			}
+		});
+		thread.sources = Object.create(null);
+		Object.keys(oldSources).forEach((oldActor) => {
+			var actor = 'source' + this._nextSource++;
+			thread.sources[actor] = oldSources[oldActor];
+			this.sendResponse({from: thread.actor, type: 'newSource', source: sourceForm(actor, oldSources[oldActor])});
+		});
+		this.sendResponse({from: 'tab1', type: 'tabNavigated', state: 'stop', url: url,
+			title: this._program.title || ''});
+		thread.runTimer = setTimeout(() => {
+			thread.runTimer = null;
+			this.run(thread, undefined);
+		}, PageLoadDelay);
+	}
+
+	private pause(thread: MockThread, why: any): void {
+		this.sendResponse({from: thread.actor, type: 'paused', actor: thread.actor + '/pause1', why: why,
+			frame: this.currentFrame(thread)});
+	}
+
+	// the connection is closed when the page's program ends, a worker is closed when its program ends
+	private finish(thread: MockThread): void {
+		if (!thread.workerActor) {
+			this.disconnect();
+			return;
+		}
+		delete this._workers[thread.workerActor];
+		this.sendResponse({from: thread.workerActor, type: 'close'});
+		this.sendResponse({from: 'tab1', type: 'workerListChanged'});
+	}
+
+	// executes the current step and the following ones until the thread pauses again
+	private run(thread: MockThread, resumeLimit: string): void {
+		while (true) {
+			var step = thread.program.steps[thread.position];
+			if (step.duration && thread.waitedAt !== thread.position) {
+				thread.waitedAt = thread.position;
+				thread.runTimer = setTimeout(() => {
+					thread.runTimer = null;
+					this.run(thread, resumeLimit);
+				}, step.duration);
+				return;
+			}
+			if (step.exception !== undefined && thread.pauseOnExceptions && thread.thrownAt !== thread.position) {
+				thread.thrownAt = thread.position;
+				this.pause(thread, {type: 'exception', exception: step.exception});
+				return;
+			}
+			thread.position++;
+			if (thread.isFinished()) {
+				this.finish(thread);
+				return;
+			}
+			if (resumeLimit) {
+				this.pause(thread, {type: 'resumeLimit'});
+				return;
+			}
+			var hit = this.hitBreakpoints(thread);
+			if (hit.length > 0) {
+				this.pause(thread, {type: 'breakpoint', actors: hit});
+				return;
+			}
+		}
+	}
+
+	private hitBreakpoints(thread: MockThread): string[] {
+		var step = thread.program.steps[thread.position];
+		return Object.keys(this._breakpoints).filter((actor) => {
+			var breakpoint = this._breakpoints[actor];
+			var script = thread.sources[breakpoint.source];
+			if (!script || script.url !== step.url || breakpoint.line !== step.line) {
+				return false;
+			}
+			// like Firefox, the breakpoint is ignored if its condition is falsy
+			return !breakpoint.condition || !!this.evaluate(breakpoint.condition, thread.currentVariables()).return;
+		});
+	}
+}
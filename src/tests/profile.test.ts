@@ -0,0 +1,76 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {prepareProfile, removeProfile, formatPreferences} from '../ffProfile';
+
+suite('Profile', () => {
+
+	let template: string;
+
+	setup(() => {
+		template = path.join(os.tmpdir(), `vscode-firefox-debug-template-${process.pid}`);
+		fs.mkdirSync(template);
+		fs.mkdirSync(path.join(template, 'extensions'));
+		fs.writeFileSync(path.join(template, 'extensions', 'addon.xpi'), 'addon');
+		fs.writeFileSync(path.join(template, 'parent.lock'), '');
+	});
+
+	teardown(() => {
+		removeProfile({dir: template, temporary: true});
+	});
+
+	test('should format preferences', () => {
+		assert.equal(formatPreferences({'a.b': true, 'c': 2, 'd': 'say "hi"'}),
+			'user_pref("a.b", true);\nuser_pref("c", 2);\nuser_pref("d", "say \\"hi\\"");\n');
+	});
+
+	test('should create a temporary profile from the template', () => {
+		var profile = prepareProfile({profileTemplate: template, preferences: {'dom.webnotifications.enabled': false}});
+		assert.equal(profile.temporary, true);
+		assert.equal(fs.readFileSync(path.join(profile.dir, 'extensions', 'addon.xpi'), 'utf8'), 'addon');
+		assert.equal(fs.existsSync(path.join(profile.dir, 'parent.lock')), false);
+		var userJs = fs.readFileSync(path.join(profile.dir, 'user.js'), 'utf8');
+		assert.ok(userJs.indexOf('user_pref("devtools.debugger.remote-enabled", true);') >= 0, userJs);
+		assert.ok(userJs.indexOf('user_pref("dom.webnotifications.enabled", false);') >= 0, userJs);
+		removeProfile(profile);
+		assert.equal(fs.existsSync(profile.dir), false);
+	});
+
+	test('should keep a persistent profile', () => {
+		var profileDir = path.join(template, 'extensions');
+		var profile = prepareProfile({profileDir: profileDir, profileTemplate: template});
+		assert.equal(profile.temporary, false);
+		// the template is only copied into new profiles
+		assert.equal(fs.existsSync(path.join(profileDir, 'extensions')), false);
+		var userJs = fs.readFileSync(path.join(profileDir, 'user.js'), 'utf8');
+		assert.ok(userJs.indexOf('user_pref("devtools.debugger.remote-enabled", true);') >= 0, userJs);
+		removeProfile(profile);
+		assert.ok(fs.existsSync(path.join(profileDir, 'addon.xpi')));
+	});
+
+	test('should keep the own preferences of a persistent profile', () => {
+		var userJsPath = path.join(template, 'user.js');
+		fs.writeFileSync(userJsPath, 'user_pref("browser.startup.page", 3);');
+		prepareProfile({profileDir: template, preferences: {'test.pref': 1}});
+		prepareProfile({profileDir: template, preferences: {'test.pref': 2}});
+		var lines = fs.readFileSync(userJsPath, 'utf8').split('\n');
+		assert.equal(lines[0], 'user_pref("browser.startup.page", 3);');
+		// the preferences of the previous launch are replaced
+		assert.equal(lines.filter((line) => line.indexOf('devtools.debugger.remote-enabled') >= 0).length, 1);
+		assert.deepEqual(lines.filter((line) => line.indexOf('test.pref') >= 0), ['user_pref("test.pref", 2);']);
+		// preferences the user added after the marked ones are kept as well
+		fs.appendFileSync(userJsPath, 'user_pref("browser.startup.homepage", "about:blank");\n');
+		prepareProfile({profileDir: template});
+		var userJs = fs.readFileSync(userJsPath, 'utf8');
+		assert.ok(userJs.indexOf('user_pref("browser.startup.page", 3);') >= 0, userJs);
+		assert.ok(userJs.indexOf('browser.startup.homepage') >= 0, userJs);
+		assert.equal(userJs.indexOf('test.pref'), -1, userJs);
+	});
+});
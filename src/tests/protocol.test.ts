@@ -0,0 +1,98 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import * as net from 'net';
+import {FirefoxProtocol, ProtocolError, BulkPacket} from '../ffProtocol';
+
+class TestProtocol extends FirefoxProtocol {
+	public packets: any[] = [];
+	public bulkPackets: BulkPacket[] = [];
+	public errors: ProtocolError[] = [];
+	public disconnectError: Error = null;
+	public onDisconnected: () => void = () => {};
+
+	protected onExecuteCommand(body: any): void {
+		this.packets.push(body);
+	}
+
+	protected onBulkPacket(packet: BulkPacket): void {
+		this.bulkPackets.push(packet);
+	}
+
+	protected onProtocolError(e: ProtocolError): void {
+		this.errors.push(e);
+	}
+
+	protected onDisconnect(error?: Error): void {
+		this.disconnectError = error;
+		this.onDisconnected();
+	}
+}
+
+suite('Firefox Protocol', () => {
+
+	let server: net.Server;
+	let socket: net.Socket;
+	let protocol: TestProtocol;
+
+	setup(done => {
+		server = net.createServer((s) => {
+			socket = s;
+			done();
+		});
+		server.listen(0, () => {
+			protocol = new TestProtocol();
+			protocol.connect(server.address().port);
+		});
+	});
+
+	teardown(done => {
+		protocol.disconnect();
+		server.close(() => done());
+	});
+
+	function whenReceived(predicate: () => boolean): Promise<void> {
+		return new Promise<void>((resolve) => {
+			var check = () => predicate() ? resolve() : setTimeout(check, 10);
+			check();
+		});
+	}
+
+	test('should parse JSON and bulk packets split across chunks', () => {
+		var packets = '12:{"from":"a"}bulk root dump 5:hello12:{"from":"b"}';
+		socket.write(packets.substring(0, 7));
+		socket.write(packets.substring(7, 20));
+		socket.write(packets.substring(20));
+		return whenReceived(() => protocol.packets.length === 2).then(() => {
+			assert.deepEqual(protocol.packets, [{from: 'a'}, {from: 'b'}]);
+			assert.equal(protocol.bulkPackets.length, 1);
+			assert.equal(protocol.bulkPackets[0].actor, 'root');
+			assert.equal(protocol.bulkPackets[0].type, 'dump');
+			assert.equal(protocol.bulkPackets[0].data.toString(), 'hello');
+		});
+	});
+
+	test('should report malformed packets and keep the connection', () => {
+		socket.write('5:{"fr');
+		socket.write('x:{}');
+		return whenReceived(() => protocol.errors.length === 2).then(() => {
+			socket.write('12:{"from":"a"}');
+			return whenReceived(() => protocol.packets.length === 1);
+		}).then(() => {
+			assert.equal(protocol.connected, true);
+		});
+	});
+
+	test('should report a connection closed by Firefox', () => {
+		var disconnected = new Promise<void>((resolve) => protocol.onDisconnected = resolve);
+		socket.end();
+		return disconnected.then(() => {
+			assert.ok(protocol.disconnectError);
+			assert.equal(protocol.connected, false);
+		});
+	});
+});
@@ -0,0 +1,30 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import {createSkipFilesMatcher} from '../ffSkipFiles';
+
+suite('Skip Files', () => {
+
+	test('should match paths with globs', () => {
+		var isSkipped = createSkipFilesMatcher(['/projects/app/node_modules/**', '**/*.min.js']);
+		assert.equal(isSkipped('/projects/app/node_modules/react/index.js'), true);
+		assert.equal(isSkipped('/projects/app/lib/jquery.min.js'), true);
+		assert.equal(isSkipped('/projects/app/src/main.js'), false);
+	});
+
+	test('should match URLs', () => {
+		var isSkipped = createSkipFilesMatcher(['https://cdn.example.com/*/polyfill.js']);
+		assert.equal(isSkipped('https://cdn.example.com/v2/polyfill.js'), true);
+		assert.equal(isSkipped('https://cdn.example.com/v2/lib/polyfill.js'), false);
+	});
+
+	test('should not skip anything without patterns', () => {
+		var isSkipped = createSkipFilesMatcher(undefined);
+		assert.equal(isSkipped('/projects/app/src/main.js'), false);
+		assert.equal(isSkipped(null), false);
+	});
+});
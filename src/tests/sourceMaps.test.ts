@@ -0,0 +1,63 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import {SourceMaps} from '../ffSourceMaps';
+import {HttpURLHelper} from '../ffUrlHelper';
+
+suite('Source Maps', () => {
+
+	const WEB_ROOT = '/projects/app';
+	const GENERATED_URL = 'http://localhost:8000/dist/bundle.js';
+
+	// bundle.js line 1 is a.ts line 1, bundle.js line 2 is a.ts line 3
+	const MAP = {
+		version: 3,
+		file: 'bundle.js',
+		sources: ['../src/a.ts'],
+		names: [],
+		mappings: 'AAAA;AAEA'
+	};
+
+	function dataURL(map: any): string {
+		return 'data:application/json;base64,' + new Buffer(JSON.stringify(map)).toString('base64');
+	}
+
+	let sourceMaps: SourceMaps;
+
+	setup(() => {
+		sourceMaps = new SourceMaps(new HttpURLHelper(WEB_ROOT, 'http://localhost:8000/index.html'));
+	});
+
+	test('should load inline source map', () => {
+		return sourceMaps.load(GENERATED_URL, dataURL(MAP)).then((paths) => {
+			assert.deepEqual(paths, ['/projects/app/src/a.ts']);
+			assert.equal(sourceMaps.hasSourceMap(GENERATED_URL), true);
+			assert.equal(sourceMaps.isOriginal('/projects/app/src/a.ts'), true);
+		});
+	});
+
+	test('should map generated location to original', () => {
+		return sourceMaps.load(GENERATED_URL, dataURL(MAP)).then(() => {
+			const location = sourceMaps.originalPositionFor(GENERATED_URL, 2, 0);
+			assert.equal(location.path, '/projects/app/src/a.ts');
+			assert.equal(location.line, 3);
+		});
+	});
+
+	test('should map original location to generated', () => {
+		return sourceMaps.load(GENERATED_URL, dataURL(MAP)).then(() => {
+			const location = sourceMaps.generatedPositionFor('/projects/app/src/a.ts', 3);
+			assert.equal(location.url, GENERATED_URL);
+			assert.equal(location.line, 2);
+		});
+	});
+
+	test('should not map unknown scripts', () => {
+		assert.equal(sourceMaps.originalPositionFor('http://localhost:8000/other.js', 1, 0), null);
+		assert.equal(sourceMaps.generatedPositionFor('/projects/app/other.ts', 1), null);
+	});
+});
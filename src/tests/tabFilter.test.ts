@@ -0,0 +1,43 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import {createTabFilter} from '../ffTabFilter';
+
+suite('Tab Filter', () => {
+
+	const PROGRAM = 'http://localhost:8000/app/index.html';
+
+	test('should match the program URL ignoring query, hash and trailing slash', () => {
+		var filter = createTabFilter(PROGRAM);
+		assert.equal(filter({url: PROGRAM}), true);
+		assert.equal(filter({url: PROGRAM + '?debug=1#/home'}), true);
+		assert.equal(filter({url: PROGRAM + '/'}), true);
+		assert.equal(filter({url: 'http://localhost:8000/app/other.html'}), false);
+	});
+
+	test('should match URL globs', () => {
+		var filter = createTabFilter(PROGRAM, {url: 'http://localhost:8000/*'});
+		assert.equal(filter({url: 'http://localhost:8000/login?next=app'}), true);
+		assert.equal(filter({url: 'http://localhost:8001/'}), false);
+	});
+
+	test('should match title regular expressions', () => {
+		var filter = createTabFilter(PROGRAM, {title: '/^my app/i'});
+		assert.equal(filter({url: 'about:blank', title: 'My App - Home'}), true);
+		assert.equal(filter({url: PROGRAM, title: 'Loading'}), false);
+	});
+
+	test('should report invalid regular expressions', () => {
+		assert.throws(() => createTabFilter(PROGRAM, {title: '/[/'}),
+			/^Error: Invalid tabFilter title regular expression \/\[\/: /);
+	});
+
+	test('should select any tab with an empty filter', () => {
+		var filter = createTabFilter(PROGRAM, {});
+		assert.equal(filter({url: 'about:home'}), true);
+	});
+});
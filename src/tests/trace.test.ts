@@ -0,0 +1,120 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {FirefoxSession} from '../ffSession';
+import {TraceRecorder, readTrace} from '../ffTrace';
+
+const TRACE = [
+	['received', {from: 'root', applicationType: 'browser'}],
+	['sent', {to: 'root', type: 'listTabs'}],
+	['received', {from: 'root', tabs: [{actor: 'tab1', consoleActor: 'console1', url: 'http://localhost/', title: 'Test'}]}],
+	['sent', {to: 'console1', type: 'startListeners', listeners: ['PageError', 'ConsoleAPI']}],
+	['sent', {to: 'tab1', type: 'attach'}],
+	['received', {from: 'console1', startedListeners: ['PageError', 'ConsoleAPI']}],
+	['sent', {to: 'console1', type: 'getCachedMessages', messageTypes: ['PageError', 'ConsoleAPI']}],
+	['received', {from: 'tab1', type: 'tabAttached', threadActor: 'thread1'}],
+	['sent', {to: 'thread1', type: 'attach'}],
+	['sent', {to: 'thread1', type: 'sources'}],
+	['sent', {to: 'tab1', type: 'listWorkers'}],
+	['received', {from: 'console1', messages: []}],
+	['received', {from: 'thread1', type: 'paused', why: {type: 'attached'}}],
+	['received', {from: 'thread1', sources: [{actor: 'source1', url: 'http://localhost/app.js'}]}],
+	['received', {from: 'tab1', workers: []}],
+	['sent', {to: 'tab1', type: 'detach'}],
+	['received', {from: 'tab1', type: 'detached'}]
+];
+
+suite('Trace Replay', () => {
+
+	let traceFile: string;
+
+	setup(() => {
+		traceFile = path.join(os.tmpdir(), `vscode-firefox-debug-trace-${process.pid}.jsonl`);
+		fs.writeFileSync(traceFile, TRACE.map((entry) => JSON.stringify({
+			direction: entry[0], time: 0, body: entry[1]
+		})).join('\n') + '\n');
+	});
+
+	teardown(() => {
+		fs.unlinkSync(traceFile);
+	});
+
+	test('should attach to a replayed session', () => {
+		var session = new FirefoxSession();
+		var errors: string[] = [];
+		var sourceAnnounced = new Promise<any>((resolve) => {
+			session._onOutput = (s, category) => {
+				if (category === 'stderr') {
+					errors.push(s);
+				}
+			};
+			session._onNotification = (topic, args) => {
+				if (topic === 'source') {
+					resolve(args);
+				}
+			};
+		});
+		return session.attach({url: 'http://localhost/', webRoot: '/tmp', replayTrace: traceFile}).then(() => {
+			return sourceAnnounced;
+		}).then((source) => {
+			assert.equal(source.url, 'http://localhost/app.js');
+			return session.stop();
+		}).then(() => {
+			assert.deepEqual(errors, []);
+		});
+	});
+
+	test('should not attach when the trace cannot be written', () => {
+		var session = new FirefoxSession();
+		return session.attach({url: 'http://localhost/', webRoot: '/tmp', replayTrace: traceFile,
+			traceFile: path.join(os.tmpdir(), `vscode-firefox-debug-missing-${process.pid}`, 'trace.jsonl')}).then(() => {
+			throw new Error('attaches without writing the trace');
+		}, (e) => {
+			assert.ok(/^Cannot write the trace .*trace\.jsonl: ENOENT/.test(e.message), e.message);
+		});
+	});
+});
+
+suite('Trace Recorder', () => {
+
+	let traceFile: string;
+
+	setup(() => {
+		traceFile = path.join(os.tmpdir(), `vscode-firefox-debug-recorded-${process.pid}.jsonl`);
+	});
+
+	teardown(() => {
+		if (fs.existsSync(traceFile)) {
+			fs.unlinkSync(traceFile);
+		}
+	});
+
+	test('should record the packets to read them back', () => {
+		var errors: Error[] = [];
+		var recorder = new TraceRecorder(traceFile, (e) => errors.push(e));
+		recorder.record('sent', {to: 'root', type: 'listTabs'});
+		recorder.record('received', {from: 'root', tabs: []});
+		recorder.recordBulk('thread1', 'heapSnapshot', 42);
+		return recorder.close().then(() => {
+			var entries = readTrace(traceFile);
+			assert.deepEqual(entries.map((entry) => [entry.direction, entry.actor, entry.body, !!entry.bulk]), [
+				['sent', 'root', {to: 'root', type: 'listTabs'}, false],
+				['received', 'root', {from: 'root', tabs: []}, false],
+				['received', 'thread1', {type: 'heapSnapshot', length: 42}, true]
+			]);
+			assert.ok(entries.every((entry) => typeof entry.time === 'number'));
+			assert.deepEqual(errors, []);
+		});
+	});
+
+	test('should throw if the file cannot be created', () => {
+		assert.throws(() => new TraceRecorder(path.join(traceFile, 'trace.jsonl'), () => {}), /ENOENT|ENOTDIR/);
+	});
+});
@@ -0,0 +1,55 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+"use strict";
+
+import assert = require('assert');
+import {LocalURLHelper, HttpURLHelper, PathMappingURLHelper, fileUrlToPath, pathToFileUrl} from '../ffUrlHelper';
+
+suite('URL Helper', () => {
+
+	const MAPPINGS = [
+		{url: 'http://localhost:8000/', path: '/projects/app/public'},
+		{url: 'http://localhost:8000/lib', path: '/projects/app/node_modules'}
+	];
+
+	test('should map URLs with the most specific prefix', () => {
+		var helper = new PathMappingURLHelper(MAPPINGS);
+		assert.equal(helper.convertToLocal('http://localhost:8000/main.js'), '/projects/app/public/main.js');
+		assert.equal(helper.convertToLocal('http://localhost:8000/lib/react/index.js'),
+			'/projects/app/node_modules/react/index.js');
+		// prefixes match whole path segments
+		assert.equal(helper.convertToLocal('http://localhost:8000/library.js'), '/projects/app/public/library.js');
+	});
+
+	test('should decode URLs and ignore their query and hash', () => {
+		var helper = new PathMappingURLHelper(MAPPINGS);
+		assert.equal(helper.convertToLocal('http://localhost:8000/my%20app.js?v=2#top'), '/projects/app/public/my app.js');
+		assert.equal(helper.convertToLocal('http://localhost:8000/bad%E0.js'), null);
+	});
+
+	test('should not map URLs without a mapping', () => {
+		var helper = new PathMappingURLHelper(MAPPINGS);
+		assert.equal(helper.convertToLocal('https://cdn.example.com/jquery.js'), null);
+		assert.equal(helper.convertToLocal('http://localhost:9000/main.js'), null);
+		assert.equal(helper.convertToLocal('file:///projects/other/main.js'), '/projects/other/main.js');
+		assert.equal(new HttpURLHelper('/projects/app', 'http://localhost:8000/index.html')
+			.convertToLocal('https://cdn.example.com/jquery.js'), null);
+		assert.equal(new LocalURLHelper().convertToLocal('https://cdn.example.com/jquery.js'), null);
+	});
+
+	test('should map local paths to URLs', () => {
+		var helper = new PathMappingURLHelper(MAPPINGS);
+		assert.equal(helper.convertToWeb('/projects/app/public/my app.js'), 'http://localhost:8000/my%20app.js');
+		assert.equal(helper.convertToWeb('/projects/app/node_modules/react/index.js'),
+			'http://localhost:8000/lib/react/index.js');
+		assert.equal(helper.convertToWeb('/projects/other/a#b.js'), 'file:///projects/other/a%23b.js');
+	});
+
+	test('should convert Windows paths and file URLs', () => {
+		assert.equal(fileUrlToPath('file:///C:/Users/me/my%20app/index.html'), 'C:\\Users\\me\\my app\\index.html');
+		assert.equal(pathToFileUrl('C:\\Users\\me\\my app\\index.html'), 'file:///C:/Users/me/my%20app/index.html');
+		assert.equal(fileUrlToPath('http://localhost:8000/index.html'), null);
+	});
+});
@@ -0,0 +1,56 @@
+// Type definitions for source-map v0.5.x
+// Project: https://github.com/mozilla/source-map
+// Definitions: only the consumer API used by the debug adapter
+
+declare module 'source-map' {
+	export interface StartOfSourceMap {
+		file?: string;
+		sourceRoot?: string;
+	}
+
+	export interface RawSourceMap extends StartOfSourceMap {
+		version: string | number;
+		sources: Array<string>;
+		names: Array<string>;
+		sourcesContent?: Array<string>;
+		mappings: string;
+	}
+
+	export interface Position {
+		line: number;
+		column: number;
+	}
+
+	export interface LineRange extends Position {
+		lastColumn: number;
+	}
+
+	export interface FindPosition extends Position {
+		// SourceMapConsumer.GREATEST_LOWER_BOUND or SourceMapConsumer.LEAST_UPPER_BOUND
+		bias?: number;
+	}
+
+	export interface SourceFindPosition extends FindPosition {
+		source: string;
+	}
+
+	export interface MappedPosition extends Position {
+		source: string;
+		name?: string;
+	}
+
+	export class SourceMapConsumer {
+		public static GREATEST_LOWER_BOUND: number;
+		public static LEAST_UPPER_BOUND: number;
+
+		public file: string;
+		public sourceRoot: string;
+		public sources: Array<string>;
+
+		constructor(rawSourceMap: RawSourceMap | string);
+		public originalPositionFor(generatedPosition: FindPosition): MappedPosition;
+		public generatedPositionFor(originalPosition: SourceFindPosition): LineRange;
+		public allGeneratedPositionsFor(originalPosition: {source: string; line: number; column?: number}): Array<LineRange>;
+		public sourceContentFor(source: string, returnNullOnMissing?: boolean): string;
+	}
+}